@@ -1,4 +1,65 @@
 import LocalEchoController from "./lib/LocalEchoController";
+export { CommandRegistry } from "./lib/CommandRegistry";
+export type {
+	Command,
+	CommandArgs,
+	CommandArgument,
+	CommandChoices,
+	CommandContext,
+	CommandFlag,
+	CommandFlags,
+	ParsedCommand,
+} from "./lib/CommandRegistry";
+export {
+	EOFError,
+	InterruptError,
+	TimeoutError,
+	UsageError,
+} from "./lib/Errors";
+export { EventEmitter } from "./lib/EventEmitter";
+export type { Disposable, Listener } from "./lib/EventEmitter";
 export { HistoryController } from "./lib/HistoryController";
+export {
+	KeyValueHistoryStorage,
+	MemoryHistoryStorage,
+} from "./lib/HistoryStorage";
+export type { HistoryStorage, KeyValueStore } from "./lib/HistoryStorage";
+export { HeadlessTerminal } from "./lib/HeadlessTerminal";
+export { KillRing } from "./lib/KillRing";
+export { Repl } from "./lib/Repl";
+export type { ReplOptions } from "./lib/Repl";
+export { UndoStack } from "./lib/UndoStack";
+export type { EditState } from "./lib/UndoStack";
+export { DEFAULT_KEYMAP } from "./lib/Keymap";
+export {
+	isIncompleteBracketedInput,
+	isIncompleteShellInput,
+	isIncompleteSqlInput,
+} from "./lib/IncompleteInput";
+export type { IncompleteInputDetector } from "./lib/IncompleteInput";
+export { DEFAULT_SHELL_STYLES, highlightShell } from "./lib/utils";
+export type {
+	AutocompleteCallback,
+	AutocompleteCandidate,
+	AutocompleteResult,
+	CompletionCandidate,
+	ShellHighlightStyles,
+} from "./lib/utils";
+export type {
+	EditingAction,
+	KeyBinding,
+	KeyBindingContext,
+	KeyBindingHandler,
+} from "./lib/Keymap";
+export type {
+	CancelEvent,
+	CompletionApplyEvent,
+	CompletionRequestEvent,
+	HistoryNavigateEvent,
+	InputValidator,
+	InterruptHandler,
+	SelectChoice,
+	SubmitHandler,
+} from "./lib/LocalEchoController";
 
 export default LocalEchoController;
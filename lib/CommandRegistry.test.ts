@@ -0,0 +1,134 @@
+import { CommandRegistry } from "./CommandRegistry";
+import { UsageError } from "./Errors";
+
+import { expect, test } from "vitest";
+
+/**
+ * Creates a registry with a command that takes arguments and flags
+ */
+function setup() {
+	const commands = new CommandRegistry();
+	commands.register({
+		name: "copy",
+		aliases: ["cp"],
+		description: "Copy files",
+		args: [
+			{ name: "source", variadic: false },
+			{ name: "dest", required: false },
+		],
+		flags: [
+			{ name: "force", alias: "f", description: "Overwrite files" },
+			{ name: "mode", type: "string", choices: ["fast", "safe"] },
+			{ name: "depth", type: "number", default: 1 },
+		],
+		handler: () => {},
+	});
+	return commands;
+}
+
+/**
+ * Test parsing the arguments and the flags of a command line
+ */
+test("CommandRegistry.parse()", () => {
+	const commands = setup();
+	const parsed = commands.parse("cp -f 'a b.txt' --mode=safe c --depth 3");
+	expect(parsed!.command.name).toEqual("copy");
+	expect(parsed!.args).toEqual({ source: "a b.txt", dest: "c" });
+	expect(parsed!.flags).toEqual({ force: true, mode: "safe", depth: 3 });
+
+	expect(commands.parse("copy -- -a")!.args).toEqual({
+		source: "-a",
+		dest: undefined,
+	});
+	expect(commands.parse("  ")).toEqual(null);
+
+	// The words are split like the completed ones, keeping the variables
+	expect(commands.parse(`cp a\\ b "$HOME/c" # note`)!.args).toEqual({
+		source: "a b",
+		dest: "$HOME/c",
+	});
+
+	// Errors come with the usage of the command
+	const error = (input: string) => {
+		try {
+			commands.parse(input);
+		} catch (e) {
+			expect(e).toBeInstanceOf(UsageError);
+			return [(e as UsageError).message, (e as UsageError).usage];
+		}
+	};
+	expect(error("copy")).toEqual([
+		"Missing argument: source",
+		"Usage: copy [options] <source> [dest]",
+	]);
+	expect(error("copy a --mode slow")![0]).toEqual(
+		"Invalid value for --mode: slow (one of fast, safe)",
+	);
+	expect(error("copy a --depth x")![0]).toEqual(
+		"Invalid number for --depth: x",
+	);
+	expect(error("copy a b c")![0]).toEqual("Too many arguments");
+	expect(error("copy a -x")![0]).toEqual("Unknown flag: -x");
+	expect(error("copy a | wc")![0]).toEqual("Unsupported operator: |");
+	expect(error("move a")).toEqual([
+		'Unknown command: move (type "help" for a list of commands)',
+		"",
+	]);
+});
+
+/**
+ * Test the help texts
+ */
+test("CommandRegistry.help()", () => {
+	const commands = setup();
+	expect(commands.help()).toEqual(
+		[
+			"Commands:",
+			"  help      List the commands, or describe one of them",
+			"  copy, cp  Copy files",
+		].join("\n"),
+	);
+	expect(commands.help("cp")).toEqual(
+		[
+			"Usage: copy [options] <source> [dest]",
+			"",
+			"Copy files",
+			"",
+			"Aliases: cp",
+			"",
+			"Arguments:",
+			"  source",
+			"  dest",
+			"",
+			"Options:",
+			"  -f, --force       Overwrite files",
+			"  --mode <string>   (one of fast, safe)",
+			"  --depth <number>",
+		].join("\n"),
+	);
+});
+
+/**
+ * Test completing the command names, the flags and their values
+ */
+test("CommandRegistry.complete()", () => {
+	const commands = setup();
+	const values = (index: number, tokens: string[]) =>
+		commands.complete(index, tokens).map((c) => c.value);
+
+	expect(values(0, [])).toEqual(["help", "copy", "cp"]);
+	expect(values(1, ["help"])).toEqual(["help", "copy", "cp"]);
+	expect(values(1, ["cp", "-"])).toEqual([
+		"--force",
+		"-f",
+		"--mode",
+		"--depth",
+	]);
+	expect(values(2, ["cp", "--mode"])).toEqual(["fast", "safe"]);
+	expect(values(1, ["cp", "--mode=f"])).toEqual([
+		"--mode=fast",
+		"--mode=safe",
+	]);
+	expect(values(3, ["cp", "--mode", "fast"])).toEqual([]);
+	expect(values(1, ["rm"])).toEqual([]);
+});
@@ -0,0 +1,461 @@
+import { UsageError } from "./Errors";
+import { tokenizeShell, unquoteShellWord } from "./ShellTokenizer";
+import { CompletionCandidate } from "./utils";
+
+/**
+ * The values a command argument or flag accepts, either as a list or as a
+ * function that returns it
+ */
+export type CommandChoices = string[] | (() => string[]);
+
+/**
+ * A positional argument of a command
+ *
+ * Arguments are required unless `required` is `false`. A `variadic`
+ * argument, which must be the last one, collects all the remaining values.
+ */
+export interface CommandArgument {
+	name: string;
+	description?: string;
+	required?: boolean;
+	variadic?: boolean;
+	choices?: CommandChoices;
+}
+
+/**
+ * A flag of a command, given as `--name`, or `-alias` for its one-letter
+ * alias
+ *
+ * Boolean flags (the default) take no value, while the other ones take the
+ * next word or the text after `=` (as in `--name=value`).
+ */
+export interface CommandFlag {
+	name: string;
+	alias?: string;
+	description?: string;
+	type?: "boolean" | "string" | "number";
+	default?: string | number | boolean;
+	choices?: CommandChoices;
+}
+
+/**
+ * The values of the arguments of a command, by name
+ */
+export type CommandArgs = Record<string, string | string[] | undefined>;
+
+/**
+ * The values of the flags of a command, by name
+ */
+export type CommandFlags = Record<
+	string,
+	string | number | boolean | undefined
+>;
+
+/**
+ * What a command handler is called with
+ */
+export interface CommandContext {
+	args: CommandArgs;
+	flags: CommandFlags;
+	print: (message: string) => void;
+}
+
+/**
+ * A command that can be invoked by its name or its aliases
+ */
+export interface Command {
+	name: string;
+	aliases?: string[];
+	description?: string;
+	args?: CommandArgument[];
+	flags?: CommandFlag[];
+	handler: (context: CommandContext) => void | Promise<void>;
+}
+
+/**
+ * A command line, parsed according to the command it invokes
+ */
+export interface ParsedCommand {
+	command: Command;
+	args: CommandArgs;
+	flags: CommandFlags;
+}
+
+/**
+ * Returns the values of the given choices
+ */
+function choiceValues(choices: CommandChoices | undefined): string[] | null {
+	if (!choices) return null;
+	return typeof choices === "function" ? choices() : choices;
+}
+
+/**
+ * Splits a command line into words, like a shell does
+ *
+ * The words are split like the ones that are completed, with the same
+ * tokenizer. Variables are kept as they are, and comments are dropped.
+ * Control operators (such as pipes) are not supported.
+ */
+function splitWords(input: string): string[] {
+	const words: string[] = [];
+	for (const { type, text } of tokenizeShell(input)) {
+		if (type === "word") {
+			words.push(unquoteShellWord(text));
+		} else if (type === "operator") {
+			throw new UsageError(`Unsupported operator: ${text}`);
+		}
+	}
+	return words;
+}
+
+/**
+ * Formats the given rows in two aligned columns
+ */
+function formatColumns(rows: [string, string][]): string[] {
+	const width = rows.reduce((w, [left]) => Math.max(w, left.length), 0);
+	return rows.map(([left, right]) =>
+		right ? `  ${left.padEnd(width)}  ${right}` : `  ${left}`,
+	);
+}
+
+/**
+ * The command registry keeps the commands of an application, parses the
+ * command lines that invoke them and completes them.
+ *
+ * A `help` command that lists the commands is registered by default.
+ */
+export class CommandRegistry {
+	private commands: Command[];
+
+	constructor() {
+		this.commands = [];
+		this.register({
+			name: "help",
+			description: "List the commands, or describe one of them",
+			args: [
+				{
+					name: "command",
+					required: false,
+					choices: () =>
+						this.commands.flatMap((c) => [
+							c.name,
+							...(c.aliases || []),
+						]),
+				},
+			],
+			handler: ({ args, print }) =>
+				print(this.help(args.command as string | undefined)),
+		});
+	}
+
+	/**
+	 * Register a command, replacing the one with the same name
+	 */
+	register(command: Command): void {
+		const variadic = (command.args || []).findIndex((a) => a.variadic);
+		if (variadic !== -1 && variadic !== (command.args || []).length - 1) {
+			throw new TypeError(
+				`Only the last argument of ${command.name} can be variadic`,
+			);
+		}
+		this.unregister(command.name);
+		this.commands.push(command);
+	}
+
+	/**
+	 * Remove the command with the given name
+	 */
+	unregister(name: string): void {
+		this.commands = this.commands.filter((c) => c.name !== name);
+	}
+
+	/**
+	 * Returns the command with the given name or alias
+	 */
+	get(name: string): Command | undefined {
+		return (
+			this.commands.find((c) => c.name === name) ||
+			this.commands.find((c) => (c.aliases || []).includes(name))
+		);
+	}
+
+	/**
+	 * Returns all the commands, in the order they were registered
+	 */
+	list(): Command[] {
+		return this.commands.slice();
+	}
+
+	/**
+	 * Parse the given command line
+	 *
+	 * Throws a `UsageError` if the command is unknown, or if its arguments
+	 * or flags are not valid.
+	 */
+	parse(input: string): ParsedCommand | null {
+		const words = splitWords(input);
+		if (words.length === 0) return null;
+
+		const command = this.get(words[0]);
+		if (!command) {
+			throw new UsageError(
+				`Unknown command: ${words[0]} (type "help" for a list of commands)`,
+			);
+		}
+
+		const usage = this.usage(command);
+		const fail = (message: string): never => {
+			throw new UsageError(message, usage);
+		};
+		const check = (
+			name: string,
+			value: string,
+			choices?: CommandChoices,
+		) => {
+			const values = choiceValues(choices);
+			if (values && !values.includes(value)) {
+				fail(
+					`Invalid value for ${name}: ${value} (one of ${values.join(", ")})`,
+				);
+			}
+		};
+
+		// Flags may appear anywhere, until a "--"
+		const flags: CommandFlags = {};
+		const positional: string[] = [];
+		for (const flag of command.flags || []) {
+			flags[flag.name] =
+				flag.default ??
+				((flag.type || "boolean") === "boolean" ? false : undefined);
+		}
+		for (let i = 1; i < words.length; ++i) {
+			const word = words[i];
+			if (word === "--") {
+				positional.push(...words.slice(i + 1));
+				break;
+			}
+			if (!word.startsWith("-") || word === "-") {
+				positional.push(word);
+				continue;
+			}
+
+			const eq = word.indexOf("=");
+			const key = eq === -1 ? word : word.substr(0, eq);
+			const flag = this.findFlag(command, key);
+			if (!flag) fail(`Unknown flag: ${key}`);
+			const { name, type = "boolean" } = flag!;
+
+			if (type === "boolean") {
+				if (eq !== -1) fail(`The ${key} flag takes no value`);
+				flags[name] = true;
+				continue;
+			}
+
+			let value: string;
+			if (eq !== -1) value = word.substr(eq + 1);
+			else if (i + 1 < words.length) value = words[++i];
+			else return fail(`Missing value for ${key}`);
+
+			check(key, value, flag!.choices);
+			if (type === "number") {
+				const number = Number(value);
+				if (value.trim() === "" || isNaN(number)) {
+					fail(`Invalid number for ${key}: ${value}`);
+				}
+				flags[name] = number;
+			} else {
+				flags[name] = value;
+			}
+		}
+
+		// Positional values are assigned to the arguments in order
+		const args: CommandArgs = {};
+		const argDefs = command.args || [];
+		argDefs.forEach((arg, index) => {
+			const values = arg.variadic
+				? positional.slice(index)
+				: positional.slice(index, index + 1);
+			if (values.length === 0 && arg.required !== false) {
+				fail(`Missing argument: ${arg.name}`);
+			}
+			values.forEach((value) => check(arg.name, value, arg.choices));
+			args[arg.name] = arg.variadic ? values : values[0];
+		});
+		const last = argDefs[argDefs.length - 1];
+		if (positional.length > argDefs.length && !(last && last.variadic)) {
+			fail(`Too many arguments`);
+		}
+
+		return { command, args, flags };
+	}
+
+	/**
+	 * Parse the given command line and call the handler of its command
+	 *
+	 * The `print` function is passed to the handler, to print a line.
+	 */
+	async execute(
+		input: string,
+		print: (message: string) => void,
+	): Promise<void> {
+		const parsed = this.parse(input);
+		if (!parsed) return;
+		const { command, args, flags } = parsed;
+		await command.handler({ args, flags, print });
+	}
+
+	/**
+	 * Returns the usage line of the given command
+	 */
+	usage(command: Command): string {
+		const parts = [command.name];
+		if ((command.flags || []).length > 0) parts.push("[options]");
+		for (const arg of command.args || []) {
+			const name = arg.name + (arg.variadic ? "..." : "");
+			parts.push(arg.required === false ? `[${name}]` : `<${name}>`);
+		}
+		return `Usage: ${parts.join(" ")}`;
+	}
+
+	/**
+	 * Returns the help text listing all the commands, or describing the one
+	 * with the given name
+	 */
+	help(name?: string): string {
+		if (name == null) {
+			return ["Commands:"]
+				.concat(
+					formatColumns(
+						this.commands.map((c) => [
+							[c.name, ...(c.aliases || [])].join(", "),
+							c.description || "",
+						]),
+					),
+				)
+				.join("\n");
+		}
+
+		const command = this.get(name);
+		if (!command) throw new UsageError(`Unknown command: ${name}`);
+
+		const lines = [this.usage(command)];
+		if (command.description) lines.push("", command.description);
+		if (command.aliases && command.aliases.length > 0) {
+			lines.push("", `Aliases: ${command.aliases.join(", ")}`);
+		}
+		const describe = (
+			text: string | undefined,
+			choices?: CommandChoices,
+		) => {
+			const values = choiceValues(choices);
+			const hint = values ? `(one of ${values.join(", ")})` : "";
+			return [text, hint].filter(Boolean).join(" ");
+		};
+		if (command.args && command.args.length > 0) {
+			lines.push("", "Arguments:");
+			lines.push(
+				...formatColumns(
+					command.args.map((arg) => [
+						arg.name,
+						describe(arg.description, arg.choices),
+					]),
+				),
+			);
+		}
+		if (command.flags && command.flags.length > 0) {
+			lines.push("", "Options:");
+			lines.push(
+				...formatColumns(
+					command.flags.map((flag) => [
+						(flag.alias ? `-${flag.alias}, ` : "") +
+							`--${flag.name}` +
+							((flag.type || "boolean") === "boolean"
+								? ""
+								: ` <${flag.type}>`),
+						describe(flag.description, flag.choices),
+					]),
+				),
+			);
+		}
+		return lines.join("\n");
+	}
+
+	/**
+	 * Returns the completion candidates for the token with the given index,
+	 * in the tokens of a command line
+	 *
+	 * This has the signature of the auto-complete handlers, completing the
+	 * command names, the flag names and the values of the arguments and the
+	 * flags that have choices.
+	 */
+	complete(index: number, tokens: string[]): CompletionCandidate[] {
+		const words = tokens.map((token) =>
+			typeof token === "string" ? token : "",
+		);
+		if (index === 0) {
+			return this.commands.flatMap((c) =>
+				[c.name, ...(c.aliases || [])].map((value) => ({
+					value,
+					description: c.description,
+				})),
+			);
+		}
+
+		const command = this.get(words[0]);
+		if (!command) return [];
+		const current = words[index] || "";
+
+		// The value of a flag, after it or after its "="
+		const eq = current.indexOf("=");
+		if (current.startsWith("-") && eq !== -1) {
+			const flag = this.findFlag(command, current.substr(0, eq));
+			const prefix = current.substr(0, eq + 1);
+			return (choiceValues(flag && flag.choices) || []).map((value) => ({
+				value: prefix + value,
+				label: value,
+			}));
+		}
+		const previous = this.findFlag(command, words[index - 1] || "");
+		if (previous && (previous.type || "boolean") !== "boolean") {
+			return (choiceValues(previous.choices) || []).map((value) => ({
+				value,
+			}));
+		}
+
+		if (current.startsWith("-")) {
+			return (command.flags || []).flatMap((flag) =>
+				[`--${flag.name}`]
+					.concat(flag.alias ? [`-${flag.alias}`] : [])
+					.map((value) => ({ value, description: flag.description })),
+			);
+		}
+
+		// Count the positional values before the token, skipping the flags
+		let position = 0;
+		for (let i = 1; i < index; ++i) {
+			if (words[i] === "--") break;
+			const flag = this.findFlag(command, words[i]);
+			if (!flag && !words[i].startsWith("-")) position += 1;
+			else if (flag && (flag.type || "boolean") !== "boolean") i += 1;
+		}
+		const args = command.args || [];
+		const last = args[args.length - 1];
+		const arg =
+			args[position] || (last && last.variadic ? last : undefined);
+		return (choiceValues(arg && arg.choices) || []).map((value) => ({
+			value,
+		}));
+	}
+
+	/**
+	 * Returns the flag of the command that the given word names, as
+	 * `--name` or `-alias`
+	 */
+	private findFlag(command: Command, word: string): CommandFlag | undefined {
+		return (command.flags || []).find(
+			(flag) =>
+				word === `--${flag.name}` ||
+				(flag.alias != null && word === `-${flag.alias}`),
+		);
+	}
+}
@@ -0,0 +1,54 @@
+/**
+ * The error a read is rejected with when the user presses Ctrl-C, if the
+ * `interrupt` option is set to `"reject"`
+ */
+export class InterruptError extends Error {
+	/** The input that was discarded */
+	input: string;
+
+	constructor(input: string) {
+		super("Interrupted");
+		this.name = "InterruptError";
+		this.input = input;
+	}
+}
+
+/**
+ * The error a read is rejected with when the user presses Ctrl-D on an
+ * empty input
+ */
+export class EOFError extends Error {
+	constructor() {
+		super("End of input");
+		this.name = "EOFError";
+	}
+}
+
+/**
+ * The error a read is rejected with when its `timeout` expires
+ */
+export class TimeoutError extends Error {
+	/** The timeout of the read, in milliseconds */
+	timeout: number;
+
+	constructor(timeout: number) {
+		super(`Timed out after ${timeout}ms`);
+		this.name = "TimeoutError";
+		this.timeout = timeout;
+	}
+}
+
+/**
+ * The error thrown when a command line does not match the command it
+ * invokes, along with the usage of the command if it is known
+ */
+export class UsageError extends Error {
+	/** The usage line of the command, or an empty string */
+	usage: string;
+
+	constructor(message: string, usage: string = "") {
+		super(message);
+		this.name = "UsageError";
+		this.usage = usage;
+	}
+}
@@ -0,0 +1,52 @@
+/**
+ * A registration that can be cancelled
+ */
+export interface Disposable {
+	dispose: () => void;
+}
+
+/**
+ * A function that is called with the value of an event
+ */
+export type Listener<T> = (event: T) => void;
+
+/**
+ * The event emitter keeps the listeners of a single event and calls them
+ * in order when the event fires.
+ */
+export class EventEmitter<T> {
+	private listeners: Listener<T>[];
+
+	constructor() {
+		this.listeners = [];
+	}
+
+	/**
+	 * Register a listener, returning a disposable that removes it
+	 */
+	on(listener: Listener<T>): Disposable {
+		this.listeners.push(listener);
+		return {
+			dispose: () => {
+				const index = this.listeners.indexOf(listener);
+				if (index !== -1) this.listeners.splice(index, 1);
+			},
+		};
+	}
+
+	/**
+	 * Call the listeners with the given value
+	 *
+	 * A listener that throws does not prevent the next ones from being
+	 * called.
+	 */
+	fire(event: T): void {
+		for (const listener of this.listeners.slice()) {
+			try {
+				listener(event);
+			} catch (e) {
+				console.error("Event listener error:", e);
+			}
+		}
+	}
+}
@@ -0,0 +1,102 @@
+import { HeadlessTerminal } from "./HeadlessTerminal";
+
+import { expect, test } from "vitest";
+
+/**
+ * Test writing text, wrapping and scrolling
+ */
+test("HeadlessTerminal write()", () => {
+	const term = new HeadlessTerminal(5, 3);
+
+	term.write("abc\r\nde");
+	expect(term.getScreen()).toEqual(["abc", "de", ""]);
+	expect(term.cursor).toEqual({ x: 2, y: 1 });
+
+	// Filling the last column does not wrap until the next character
+	term.write("fgh");
+	expect(term.getScreen()).toEqual(["abc", "defgh", ""]);
+	expect(term.cursor).toEqual({ x: 4, y: 1 });
+	term.write("i");
+	expect(term.getScreen()).toEqual(["abc", "defgh", "i"]);
+
+	// The lines that go past the bottom are scrolled off
+	term.write("\r\nj");
+	expect(term.getScreen()).toEqual(["defgh", "i", "j"]);
+	expect(term.scrollback).toEqual(["abc"]);
+	expect(term.getText()).toEqual("abc\ndefgh\ni\nj");
+});
+
+/**
+ * Test writing wide and combining characters
+ */
+test("HeadlessTerminal write() unicode", () => {
+	const term = new HeadlessTerminal(5, 3);
+
+	term.write("a你好");
+	expect(term.getScreen()).toEqual(["a你好", "", ""]);
+	expect(term.cursor).toEqual({ x: 4, y: 0 });
+
+	// A wide character that does not fit wraps to the next line
+	term.write("\r\n1234你");
+	expect(term.getScreen()).toEqual(["a你好", "1234", "你"]);
+
+	term.write("\r\néx");
+	expect(term.getLine(2)).toEqual("éx");
+	expect(term.cursor).toEqual({ x: 2, y: 2 });
+});
+
+/**
+ * Test the cursor movement and erasing sequences
+ */
+test("HeadlessTerminal write() escape sequences", () => {
+	const term = new HeadlessTerminal(10, 4);
+	term.write("one\r\ntwo\r\nthree");
+
+	term.write("\x1b[F");
+	expect(term.cursor).toEqual({ x: 0, y: 1 });
+	term.write("\x1b[2C\x1b[K");
+	expect(term.getScreen()).toEqual(["one", "tw", "three", ""]);
+	term.write("\x1b[E\x1b[2B\x1b[3A");
+	expect(term.cursor).toEqual({ x: 0, y: 0 });
+	term.write("\x1b[20C\x1b[4D");
+	expect(term.cursor).toEqual({ x: 5, y: 0 });
+
+	// Save and restore the cursor around styled text
+	term.write("\x1b7\x1b[2;3H\x1b[1mX\x1b[0m\x1b8");
+	expect(term.getScreen()).toEqual(["one", "twX", "three", ""]);
+	expect(term.cursor).toEqual({ x: 5, y: 0 });
+
+	term.write("\x1b[2E\x1b[2J");
+	expect(term.getScreen()).toEqual(["", "", "", ""]);
+
+	// Escape sequences may be split across writes
+	term.write("ab\x1b[");
+	term.write("1D\x1b[?2004");
+	term.write("h!");
+	expect(term.getLine(2)).toEqual("a!");
+	expect(term.bracketedPasteMode).toEqual(true);
+});
+
+/**
+ * Test sending input and resizing
+ */
+test("HeadlessTerminal type()/paste()/resize()", () => {
+	const term = new HeadlessTerminal(10, 4);
+	const data: string[] = [];
+	const sizes: { cols: number; rows: number }[] = [];
+	const listener = term.onData((key) => data.push(key));
+	term.onResize((size) => sizes.push(size));
+
+	term.type("a", "\r");
+	term.paste("b\nc");
+	term.write("\x1b[?2004h");
+	term.paste("d");
+	listener.dispose();
+	term.type("e");
+	expect(data).toEqual(["a", "\r", "b\nc", "\x1b[200~d\x1b[201~"]);
+
+	term.write("123456789");
+	term.resize(5, 2);
+	expect(sizes).toEqual([{ cols: 5, rows: 2 }]);
+	expect(term.getScreen()).toEqual(["12345", ""]);
+});
@@ -0,0 +1,388 @@
+import { graphemes, graphemeWidth } from "./utils";
+
+interface Disposable {
+	dispose: () => void;
+}
+
+/**
+ * A minimal stand-in for the xterm.js `Terminal`, that keeps the screen in
+ * memory instead of rendering it, for testing the controller without a
+ * browser.
+ *
+ * It implements the parts of the terminal API used by the controller
+ * (`onData`, `onResize`, `write`, `cols` and `rows`) and interprets the
+ * control characters and escape sequences it emits: cursor movement (CUU,
+ * CUD, CUF, CUB, CNL, CPL, CHA and CUP), erasing (EL and ED) and saving or
+ * restoring the cursor. Text styles are ignored.
+ *
+ * Just like xterm.js, a line is wrapped when a character is written past
+ * the last column, not when the last column is filled.
+ */
+export class HeadlessTerminal {
+	cols: number;
+	rows: number;
+	/** Whether the application enabled the bracketed paste mode */
+	bracketedPasteMode: boolean;
+	/** The lines that scrolled off the top of the screen */
+	scrollback: string[];
+	private lines: string[][];
+	private x: number;
+	private y: number;
+	private wrapPending: boolean;
+	private saved: { x: number; y: number } | null;
+	private pending: string;
+	private dataListeners: ((data: string) => void)[];
+	private resizeListeners: ((size: { cols: number; rows: number }) => void)[];
+
+	constructor(cols: number = 80, rows: number = 24) {
+		this.cols = cols;
+		this.rows = rows;
+		this.bracketedPasteMode = false;
+		this.scrollback = [];
+		this.lines = [];
+		for (let i = 0; i < rows; ++i) this.lines.push(this.blankLine());
+		this.x = 0;
+		this.y = 0;
+		this.wrapPending = false;
+		this.saved = null;
+		this.pending = "";
+		this.dataListeners = [];
+		this.resizeListeners = [];
+	}
+
+	/////////////////////////////////////////////////////////////////////////////
+	// Terminal API
+	/////////////////////////////////////////////////////////////////////////////
+
+	onData(listener: (data: string) => void): Disposable {
+		return this.listen(this.dataListeners, listener);
+	}
+
+	onResize(
+		listener: (size: { cols: number; rows: number }) => void,
+	): Disposable {
+		return this.listen(this.resizeListeners, listener);
+	}
+
+	/**
+	 * Interpret the given output, as if it was written by the application
+	 *
+	 * Escape sequences may be split across writes.
+	 */
+	write(data: string, callback?: () => void): void {
+		const text = this.pending + data;
+		this.pending = "";
+
+		let i = 0;
+		while (i < text.length) {
+			const ch = text[i];
+			if (ch === "\x1b") {
+				const length = this.escapeSequenceLength(text, i);
+				if (length === 0) {
+					this.pending = text.substr(i);
+					break;
+				}
+				this.handleEscapeSequence(text.substr(i, length));
+				i += length;
+			} else if (ch < " " || ch === "\x7f") {
+				this.handleControl(ch);
+				i += 1;
+			} else {
+				// Print everything up to the next control character at once,
+				// so that the grapheme clusters are kept together
+				let end = i + 1;
+				while (
+					end < text.length &&
+					text[end] >= " " &&
+					text[end] !== "\x7f"
+				)
+					++end;
+				graphemes(text.substring(i, end)).forEach((cluster) =>
+					this.print(cluster),
+				);
+				i = end;
+			}
+		}
+
+		if (callback) callback();
+	}
+
+	/////////////////////////////////////////////////////////////////////////////
+	// Testing API
+	/////////////////////////////////////////////////////////////////////////////
+
+	/**
+	 * Send the given keys to the application, one at a time, as if the
+	 * user typed them
+	 */
+	type(...keys: string[]): void {
+		keys.forEach((key) =>
+			this.dataListeners.slice().forEach((listener) => listener(key)),
+		);
+	}
+
+	/**
+	 * Send the given text to the application as if the user pasted it,
+	 * wrapped in the bracketed paste markers if the mode is enabled
+	 */
+	paste(text: string): void {
+		this.type(this.bracketedPasteMode ? `\x1b[200~${text}\x1b[201~` : text);
+	}
+
+	/**
+	 * Change the size of the screen and notify the application
+	 *
+	 * Unlike xterm.js, the lines are not re-flowed, they are just cut or
+	 * padded to the new width.
+	 */
+	resize(cols: number, rows: number): void {
+		this.lines = this.lines.map((line) =>
+			line
+				.slice(0, cols)
+				.concat(Array(Math.max(0, cols - line.length)).fill(" ")),
+		);
+		// Drop the empty lines under the cursor first, then the top ones
+		while (
+			this.lines.length > rows &&
+			this.lines.length - 1 > this.y &&
+			this.lineText(this.lines[this.lines.length - 1]) === ""
+		) {
+			this.lines.pop();
+		}
+		while (this.lines.length > rows) {
+			this.scrollback.push(this.lineText(this.lines.shift()!));
+			this.y = Math.max(0, this.y - 1);
+		}
+		while (this.lines.length < rows) this.lines.push(this.blankLine());
+
+		this.cols = cols;
+		this.rows = rows;
+		this.x = Math.min(this.x, cols - 1);
+		this.wrapPending = false;
+		this.resizeListeners
+			.slice()
+			.forEach((listener) => listener({ cols, rows }));
+	}
+
+	/**
+	 * The position of the cursor, relative to the top-left of the screen
+	 */
+	get cursor(): { x: number; y: number } {
+		return { x: this.x, y: this.y };
+	}
+
+	/**
+	 * Returns the text of the given row of the screen, without the trailing
+	 * spaces
+	 */
+	getLine(row: number): string {
+		return this.lines[row] ? this.lineText(this.lines[row]) : "";
+	}
+
+	/**
+	 * Returns the text of all the rows of the screen
+	 */
+	getScreen(): string[] {
+		return this.lines.map((line) => this.lineText(line));
+	}
+
+	/**
+	 * Returns the text of the scrollback and the screen, without the
+	 * trailing empty lines
+	 */
+	getText(): string {
+		const lines = this.scrollback.concat(this.getScreen());
+		while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+		return lines.join("\n");
+	}
+
+	/////////////////////////////////////////////////////////////////////////////
+	// Internals
+	/////////////////////////////////////////////////////////////////////////////
+
+	private listen<T>(listeners: T[], listener: T): Disposable {
+		listeners.push(listener);
+		return {
+			dispose: () => {
+				const index = listeners.indexOf(listener);
+				if (index !== -1) listeners.splice(index, 1);
+			},
+		};
+	}
+
+	private blankLine(): string[] {
+		return Array(this.cols).fill(" ");
+	}
+
+	private lineText(line: string[]): string {
+		return line.join("").replace(/ +$/, "");
+	}
+
+	/**
+	 * Returns the length of the escape sequence at the given offset, or 0 if
+	 * it is not complete yet
+	 */
+	private escapeSequenceLength(text: string, offset: number): number {
+		const rest = text.substr(offset);
+		const match =
+			/^\x1b(?:\[[0-?]*[ -/]*[@-~]|\][^\x07\x1b]*(?:\x07|\x1b\\)|[^[\]])/.exec(
+				rest,
+			);
+		return match ? match[0].length : 0;
+	}
+
+	private handleEscapeSequence(sequence: string): void {
+		if (sequence === "\x1b7") {
+			this.saved = { x: this.x, y: this.y };
+			return;
+		} else if (sequence === "\x1b8") {
+			if (this.saved) this.moveTo(this.saved.x, this.saved.y);
+			return;
+		} else if (sequence[1] !== "[") {
+			return;
+		}
+
+		const final = sequence[sequence.length - 1];
+		const body = sequence.slice(2, -1);
+		if (body[0] === "?") {
+			if (body === "?2004" && (final === "h" || final === "l")) {
+				this.bracketedPasteMode = final === "h";
+			}
+			return;
+		}
+
+		const params = body.split(";").map((param) => parseInt(param, 10) || 0);
+		const count = Math.max(1, params[0]);
+
+		switch (final) {
+			case "A": // CUU
+				this.moveTo(this.x, this.y - count);
+				break;
+			case "B": // CUD
+				this.moveTo(this.x, this.y + count);
+				break;
+			case "C": // CUF
+				this.moveTo(this.x + count, this.y);
+				break;
+			case "D": // CUB
+				this.moveTo(this.x - count, this.y);
+				break;
+			case "E": // CNL
+				this.moveTo(0, this.y + count);
+				break;
+			case "F": // CPL
+				this.moveTo(0, this.y - count);
+				break;
+			case "G": // CHA
+				this.moveTo(count - 1, this.y);
+				break;
+			case "H": // CUP
+			case "f":
+				this.moveTo(Math.max(1, params[1] || 0) - 1, count - 1);
+				break;
+			case "J": // ED
+				this.eraseInDisplay(params[0]);
+				break;
+			case "K": // EL
+				this.eraseInLine(params[0]);
+				break;
+			case "s":
+				this.saved = { x: this.x, y: this.y };
+				break;
+			case "u":
+				if (this.saved) this.moveTo(this.saved.x, this.saved.y);
+				break;
+		}
+	}
+
+	private handleControl(ch: string): void {
+		switch (ch) {
+			case "\r":
+				this.moveTo(0, this.y);
+				break;
+			case "\n":
+				this.lineFeed();
+				break;
+			case "\b":
+				this.moveTo(this.x - 1, this.y);
+				break;
+			case "\t":
+				this.moveTo((Math.floor(this.x / 8) + 1) * 8, this.y);
+				break;
+		}
+	}
+
+	private moveTo(x: number, y: number): void {
+		this.x = Math.max(0, Math.min(this.cols - 1, x));
+		this.y = Math.max(0, Math.min(this.rows - 1, y));
+		this.wrapPending = false;
+	}
+
+	private lineFeed(): void {
+		if (this.y === this.rows - 1) {
+			this.scrollback.push(this.lineText(this.lines.shift()!));
+			this.lines.push(this.blankLine());
+		} else {
+			this.y += 1;
+		}
+		this.wrapPending = false;
+	}
+
+	private print(cluster: string): void {
+		const width = graphemeWidth(cluster);
+		const line = this.lines[this.y];
+
+		// Combining characters join the previous cell
+		if (width === 0) {
+			const x = this.wrapPending ? this.x : this.x - 1;
+			if (x >= 0) line[x] += cluster;
+			return;
+		}
+
+		if (this.wrapPending || (this.x > 0 && this.x + width > this.cols)) {
+			this.x = 0;
+			this.lineFeed();
+			return this.print(cluster);
+		}
+
+		// Overwriting half of a wide character erases the other half
+		if (line[this.x] === "") line[this.x - 1] = " ";
+		if (line[this.x + width] === "") line[this.x + width] = " ";
+
+		line[this.x] = cluster;
+		if (width === 2 && this.x + 1 < this.cols) line[this.x + 1] = "";
+
+		this.x += width;
+		if (this.x >= this.cols) {
+			this.x = this.cols - 1;
+			this.wrapPending = true;
+		}
+	}
+
+	private eraseInLine(mode: number): void {
+		const line = this.lines[this.y];
+		const [from, to] =
+			mode === 1
+				? [0, this.x + 1]
+				: mode === 2
+					? [0, this.cols]
+					: [this.x, this.cols];
+		// Erasing half of a wide character erases it all
+		if (line[from] === "") line[from - 1] = " ";
+		if (line[to] === "") line[to] = " ";
+		for (let i = from; i < to; ++i) line[i] = " ";
+		this.wrapPending = false;
+	}
+
+	private eraseInDisplay(mode: number): void {
+		const [from, to] =
+			mode === 1
+				? [0, this.y]
+				: mode >= 2
+					? [0, this.rows]
+					: [this.y + 1, this.rows];
+		for (let i = from; i < to; ++i) this.lines[i] = this.blankLine();
+		if (mode === 0) this.eraseInLine(0);
+		else if (mode === 1) this.eraseInLine(1);
+	}
+}
@@ -0,0 +1,139 @@
+import { HistoryController } from "./HistoryController";
+import { KeyValueHistoryStorage, MemoryHistoryStorage } from "./HistoryStorage";
+
+import { expect, test } from "vitest";
+
+/**
+ * Test incremental history search
+ */
+test("HistoryController.search()", () => {
+	const history = new HistoryController(10);
+	history.push("git status");
+	history.push("ls -la");
+	history.push("git commit");
+
+	// Backward search starts from the newest entry
+	expect(history.search("git")).toEqual({ index: 2, offset: 0 });
+	expect(history.search("git", 1)).toEqual({ index: 0, offset: 0 });
+	expect(history.search("t", 2, 8)).toEqual({ index: 2, offset: 2 });
+	expect(history.search("t", 2, -1)).toEqual({ index: 0, offset: 7 });
+	expect(history.search("foo")).toEqual(null);
+
+	// Forward search walks towards the newest entry
+	expect(history.search("git", 0, undefined, false)).toEqual({
+		index: 0,
+		offset: 0,
+	});
+	expect(history.search("git", 0, 1, false)).toEqual({
+		index: 2,
+		offset: 0,
+	});
+	expect(history.search("la", 0, 1, false)).toEqual({
+		index: 1,
+		offset: 4,
+	});
+});
+
+/**
+ * Test loading and saving history through a storage adapter
+ */
+test("HistoryController storage", () => {
+	const storage = new MemoryHistoryStorage(["a", "b", "c", "d"]);
+	const history = new HistoryController(3, storage);
+
+	// Loaded entries are trimmed to the history size
+	expect(history.length).toEqual(3);
+	expect(history.getPrevious()).toEqual("d");
+	expect(history.getPrevious()).toEqual("c");
+	expect(history.getPrevious()).toEqual("b");
+	expect(history.getPrevious()).toEqual("b");
+
+	// Pushed entries are appended
+	history.push("e");
+	expect(storage.load()).toEqual(["a", "b", "c", "d", "e"]);
+
+	history.clear();
+	expect(history.length).toEqual(0);
+	expect(storage.load()).toEqual([]);
+});
+
+/**
+ * Test the key/value storage adapter
+ */
+test("KeyValueHistoryStorage", () => {
+	const data: Record<string, string> = {};
+	const store = {
+		getItem: (key: string) => (key in data ? data[key] : null),
+		setItem: (key: string, value: string) => {
+			if (value.length > 100) throw new Error("Quota exceeded");
+			data[key] = value;
+		},
+		removeItem: (key: string) => delete data[key],
+	};
+
+	const storage = new KeyValueHistoryStorage(store, "history", 3);
+	storage.append("a");
+	storage.append("b");
+	expect(storage.load()).toEqual(["a", "b"]);
+	expect(JSON.parse(data["history"])).toEqual({
+		version: 1,
+		entries: ["a", "b"],
+	});
+
+	// Only the last entries are kept
+	storage.append("c");
+	storage.append("d");
+	expect(storage.load()).toEqual(["b", "c", "d"]);
+
+	// Oversized data drops the oldest entries
+	storage.append("x".repeat(70));
+	expect(storage.load()).toEqual(["x".repeat(70)]);
+
+	// Corrupt data is ignored
+	data["history"] = "{not json";
+	expect(storage.load()).toEqual([]);
+	data["history"] = JSON.stringify({ version: 99, entries: ["a"] });
+	expect(storage.load()).toEqual([]);
+	data["history"] = JSON.stringify({ version: 1, entries: ["a", 1, null] });
+	expect(storage.load()).toEqual(["a"]);
+	expect(new HistoryController(10, storage).length).toEqual(1);
+});
+
+/**
+ * Test prefix-filtered history navigation
+ */
+test("HistoryController.getPreviousMatching()/getNextMatching()", () => {
+	const history = new HistoryController(10);
+	history.push("git status");
+	history.push("ls");
+	history.push("git add");
+	history.push("git status");
+	history.push("git");
+
+	// Duplicates and entries identical to the prefix are skipped
+	expect(history.getPreviousMatching("git")).toEqual("git status");
+	expect(history.getPreviousMatching("git")).toEqual("git add");
+	expect(history.getPreviousMatching("git")).toEqual(undefined);
+
+	expect(history.getNextMatching("git")).toEqual("git status");
+	expect(history.getNextMatching("git")).toEqual(undefined);
+	expect(history.getPreviousMatching("l")).toEqual("ls");
+});
+
+/**
+ * Test looking up the latest entry for suggestions
+ */
+test("HistoryController.getLatestMatching()", () => {
+	const history = new HistoryController(10);
+	history.push("git add");
+	history.push("git status");
+	history.push("git");
+
+	expect(history.getLatestMatching("git")).toEqual("git status");
+	expect(history.getLatestMatching("git a")).toEqual("git add");
+	expect(history.getLatestMatching("git add")).toEqual(undefined);
+	expect(history.getLatestMatching("ls")).toEqual(undefined);
+
+	// The cursor is not moved
+	expect(history.getPrevious()).toEqual("git");
+});
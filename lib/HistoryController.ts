@@ -1,15 +1,78 @@
+import { HistoryStorage } from "./HistoryStorage";
+
+/**
+ * The location of a history search match
+ */
+export interface HistoryMatch {
+	index: number;
+	offset: number;
+}
+
 /**
  * The history controller provides a ring-buffer
+ *
+ * If a storage adapter is given, the entries are loaded from it on
+ * construction and every new entry is appended to it.
  */
 export class HistoryController {
 	private size: number;
 	private entries: string[];
 	private cursor: number;
+	private storage: HistoryStorage | null;
 
-	constructor(size: number) {
+	constructor(size: number, storage: HistoryStorage | null = null) {
 		this.size = size;
 		this.entries = [];
 		this.cursor = 0;
+		this.storage = storage;
+
+		if (storage) this.load();
+	}
+
+	/**
+	 * Load the entries from the storage, keeping the ones pushed meanwhile
+	 */
+	private load(): void {
+		const restore = (loaded: unknown) => {
+			if (!Array.isArray(loaded)) return;
+			const entries = loaded
+				.filter((entry) => typeof entry === "string")
+				.concat(this.entries);
+			this.entries = entries.slice(
+				Math.max(0, entries.length - this.size),
+			);
+			this.cursor = this.entries.length;
+		};
+
+		try {
+			const loaded = this.storage!.load();
+			if (loaded instanceof Promise) {
+				loaded.then(restore, (e) =>
+					console.error("History load error:", e),
+				);
+			} else {
+				restore(loaded);
+			}
+		} catch (e) {
+			console.error("History load error:", e);
+		}
+	}
+
+	/**
+	 * Forward the given operation to the storage, reporting any errors
+	 */
+	private persist(
+		fn: (storage: HistoryStorage) => void | Promise<void>,
+	): void {
+		if (!this.storage) return;
+		try {
+			const ret = fn(this.storage);
+			if (ret instanceof Promise) {
+				ret.catch((e) => console.error("History storage error:", e));
+			}
+		} catch (e) {
+			console.error("History storage error:", e);
+		}
 	}
 
 	/**
@@ -29,6 +92,16 @@ export class HistoryController {
 			this.entries.shift();
 		}
 		this.cursor = this.entries.length;
+		this.persist((storage) => storage.append(entry));
+	}
+
+	/**
+	 * Remove all the entries, including the persisted ones
+	 */
+	clear(): void {
+		this.entries = [];
+		this.cursor = 0;
+		this.persist((storage) => storage.clear());
 	}
 
 	/**
@@ -55,4 +128,123 @@ export class HistoryController {
 		this.cursor = idx;
 		return this.entries[idx];
 	}
+
+	/**
+	 * Checks if the entry at the given index should be visited when walking
+	 * through the entries starting with the given prefix
+	 *
+	 * Entries identical to the prefix are skipped, and so are the duplicate
+	 * ones, keeping only the most recent occurrence of each entry.
+	 */
+	private matchesPrefix(index: number, prefix: string): boolean {
+		const entry = this.entries[index];
+		return (
+			entry !== prefix &&
+			entry.startsWith(prefix) &&
+			this.entries.lastIndexOf(entry) === index
+		);
+	}
+
+	/**
+	 * Returns the previous entry that starts with the given prefix
+	 *
+	 * If there is no such entry, the cursor is not moved.
+	 */
+	getPreviousMatching(prefix: string): string | undefined {
+		for (let idx = this.cursor - 1; idx >= 0; --idx) {
+			if (this.matchesPrefix(idx, prefix)) {
+				this.cursor = idx;
+				return this.entries[idx];
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Returns the next entry that starts with the given prefix
+	 *
+	 * If there is no such entry, the cursor is rewound past the last entry.
+	 */
+	getNextMatching(prefix: string): string | undefined {
+		for (let idx = this.cursor + 1; idx < this.entries.length; ++idx) {
+			if (this.matchesPrefix(idx, prefix)) {
+				this.cursor = idx;
+				return this.entries[idx];
+			}
+		}
+		this.cursor = this.entries.length;
+		return undefined;
+	}
+
+	/**
+	 * Returns the most recent entry that starts with the given prefix and
+	 * is longer than it, without moving the cursor
+	 */
+	getLatestMatching(prefix: string): string | undefined {
+		for (let idx = this.entries.length - 1; idx >= 0; --idx) {
+			const entry = this.entries[idx];
+			if (entry !== prefix && entry.startsWith(prefix)) return entry;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Returns the number of entries in the history
+	 */
+	get length(): number {
+		return this.entries.length;
+	}
+
+	/**
+	 * The index of the entry the navigation is at, which is the number of
+	 * entries when it is past the last one
+	 */
+	get position(): number {
+		return this.cursor;
+	}
+
+	/**
+	 * Returns the entry at the given index
+	 */
+	get(index: number): string | undefined {
+		return this.entries[index];
+	}
+
+	/**
+	 * Search for an entry containing the given query
+	 *
+	 * The search starts at the entry with index `fromIndex` and walks
+	 * towards the older entries (or the newer ones, if `backward` is false).
+	 * If `fromOffset` is given, the matches in the first entry are limited to
+	 * the ones starting at or before (at or after, when searching forward)
+	 * this offset.
+	 */
+	search(
+		query: string,
+		fromIndex: number = this.entries.length - 1,
+		fromOffset?: number,
+		backward: boolean = true,
+	): HistoryMatch | null {
+		const step = backward ? -1 : 1;
+		for (
+			let index = fromIndex;
+			index >= 0 && index < this.entries.length;
+			index += step
+		) {
+			const entry = this.entries[index];
+			let offset: number;
+			if (index !== fromIndex || fromOffset == null) {
+				offset = backward
+					? entry.lastIndexOf(query)
+					: entry.indexOf(query);
+			} else if (backward) {
+				offset =
+					fromOffset < 0 ? -1 : entry.lastIndexOf(query, fromOffset);
+			} else {
+				offset = entry.indexOf(query, fromOffset);
+			}
+			if (offset !== -1) return { index, offset };
+		}
+		return null;
+	}
 }
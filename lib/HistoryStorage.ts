@@ -0,0 +1,149 @@
+/**
+ * The version of the serialized history format
+ */
+export const HISTORY_FORMAT_VERSION = 1;
+
+/**
+ * A storage adapter that persists the history entries
+ *
+ * The operations may either complete synchronously or return a promise.
+ */
+export interface HistoryStorage {
+	load(): string[] | Promise<string[]>;
+	append(entry: string): void | Promise<void>;
+	clear(): void | Promise<void>;
+}
+
+/**
+ * The subset of the web `Storage` API required by `KeyValueHistoryStorage`
+ */
+export interface KeyValueStore {
+	getItem(key: string): string | null;
+	setItem(key: string, value: string): void;
+	removeItem(key: string): void;
+}
+
+/**
+ * Serializes the given entries in the versioned history format
+ */
+export function serializeHistory(entries: string[]): string {
+	return JSON.stringify({ version: HISTORY_FORMAT_VERSION, entries });
+}
+
+/**
+ * Parses history entries from the versioned history format
+ *
+ * Corrupt data, unknown versions and non-string entries are ignored, and
+ * only the last `maxEntries` entries are returned.
+ */
+export function deserializeHistory(
+	data: string | null,
+	maxEntries: number = Infinity,
+): string[] {
+	if (data == null) return [];
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(data);
+	} catch (e) {
+		return [];
+	}
+
+	if (
+		typeof parsed !== "object" ||
+		parsed == null ||
+		!("version" in parsed) ||
+		parsed.version !== HISTORY_FORMAT_VERSION ||
+		!("entries" in parsed) ||
+		!Array.isArray(parsed.entries)
+	) {
+		return [];
+	}
+
+	const entries = parsed.entries.filter(
+		(entry: unknown): entry is string => typeof entry === "string",
+	);
+	return maxEntries < entries.length ? entries.slice(-maxEntries) : entries;
+}
+
+/**
+ * A history storage that keeps the entries in memory
+ */
+export class MemoryHistoryStorage implements HistoryStorage {
+	private entries: string[];
+
+	constructor(entries: string[] = []) {
+		this.entries = entries.slice();
+	}
+
+	load(): string[] {
+		return this.entries.slice();
+	}
+
+	append(entry: string): void {
+		this.entries.push(entry);
+	}
+
+	clear(): void {
+		this.entries = [];
+	}
+}
+
+/**
+ * A history storage on top of a `localStorage`-like key/value store
+ *
+ * At most `maxEntries` entries are kept. If the store refuses to save the
+ * data (e.g. because its quota is exceeded), the oldest half of the entries
+ * is dropped until it fits.
+ */
+export class KeyValueHistoryStorage implements HistoryStorage {
+	private store: KeyValueStore;
+	private key: string;
+	private maxEntries: number;
+
+	constructor(
+		store: KeyValueStore,
+		key: string = "local-echo-history",
+		maxEntries: number = 1000,
+	) {
+		this.store = store;
+		this.key = key;
+		this.maxEntries = maxEntries;
+	}
+
+	load(): string[] {
+		let data: string | null;
+		try {
+			data = this.store.getItem(this.key);
+		} catch (e) {
+			return [];
+		}
+		return deserializeHistory(data, this.maxEntries);
+	}
+
+	append(entry: string): void {
+		let entries = this.load();
+		entries.push(entry);
+		if (entries.length > this.maxEntries) {
+			entries = entries.slice(-this.maxEntries);
+		}
+
+		while (entries.length > 0) {
+			try {
+				this.store.setItem(this.key, serializeHistory(entries));
+				return;
+			} catch (e) {
+				entries = entries.slice(Math.ceil(entries.length / 2));
+			}
+		}
+		this.clear();
+	}
+
+	clear(): void {
+		try {
+			this.store.removeItem(this.key);
+		} catch (e) {
+			// Nothing to clear
+		}
+	}
+}
@@ -0,0 +1,84 @@
+import {
+	isIncompleteBracketedInput,
+	isIncompleteShellInput,
+	isIncompleteSqlInput,
+} from "./IncompleteInput";
+
+import { expect, test } from "vitest";
+
+/**
+ * Test the POSIX shell detector
+ */
+test("isIncompleteShellInput()", () => {
+	expect(isIncompleteShellInput("")).toEqual(false);
+	expect(isIncompleteShellInput("echo foo")).toEqual(false);
+
+	// Escaped quotes do not start a string
+	expect(isIncompleteShellInput(`echo \\"foo`)).toEqual(false);
+	expect(isIncompleteShellInput(`echo "foo \\" bar`)).toEqual(true);
+	expect(isIncompleteShellInput(`echo 'foo \\' bar`)).toEqual(false);
+	expect(isIncompleteShellInput("echo `date")).toEqual(true);
+
+	// Line continuation
+	expect(isIncompleteShellInput("echo foo \\")).toEqual(true);
+	expect(isIncompleteShellInput("echo foo \\\\")).toEqual(false);
+
+	// Operators and brackets
+	expect(isIncompleteShellInput("ls |\n")).toEqual(true);
+	expect(isIncompleteShellInput("ls |\ngrep foo")).toEqual(false);
+	expect(isIncompleteShellInput("(cd foo && ls")).toEqual(true);
+	expect(isIncompleteShellInput("echo $(date)")).toEqual(false);
+
+	// Comments are ignored
+	expect(isIncompleteShellInput("ls # it's |")).toEqual(false);
+	expect(isIncompleteShellInput("echo a#'b")).toEqual(true);
+
+	// Here-documents
+	expect(isIncompleteShellInput("cat <<EOF")).toEqual(true);
+	expect(isIncompleteShellInput("cat <<EOF\nfoo\n")).toEqual(true);
+	expect(isIncompleteShellInput("cat <<EOF\nfoo\nEOF")).toEqual(false);
+	expect(isIncompleteShellInput("cat <<'EOF'\n$foo\nEOF\n")).toEqual(false);
+	expect(isIncompleteShellInput("cat <<-EOF\nfoo\n\tEOF")).toEqual(false);
+	expect(isIncompleteShellInput("cat <<EOF\nfoo\n\tEOF")).toEqual(true);
+	expect(isIncompleteShellInput("cat <<A <<B\nA\nB")).toEqual(false);
+	expect(isIncompleteShellInput("cat <<A <<B\nB\nA")).toEqual(true);
+	expect(isIncompleteShellInput("cat <<<foo")).toEqual(false);
+});
+
+/**
+ * Test the detector for languages with C-like brackets
+ */
+test("isIncompleteBracketedInput()", () => {
+	expect(isIncompleteBracketedInput("")).toEqual(false);
+	expect(isIncompleteBracketedInput("foo(1, [2, 3])")).toEqual(false);
+	expect(isIncompleteBracketedInput("function foo() {")).toEqual(true);
+	expect(isIncompleteBracketedInput("foo([1, 2")).toEqual(true);
+
+	// Mismatched brackets are complete, to report the error
+	expect(isIncompleteBracketedInput("foo(]")).toEqual(false);
+
+	// Brackets in strings and comments are ignored
+	expect(isIncompleteBracketedInput(`"{" + '(' // [`)).toEqual(false);
+	expect(isIncompleteBracketedInput("/* { */ x")).toEqual(false);
+	expect(isIncompleteBracketedInput("x /* {")).toEqual(true);
+
+	// Template literals
+	expect(isIncompleteBracketedInput("`foo")).toEqual(true);
+	expect(isIncompleteBracketedInput("`foo ${bar}`")).toEqual(false);
+	expect(isIncompleteBracketedInput("`foo ${bar")).toEqual(true);
+	expect(isIncompleteBracketedInput("`${ {a: `{`} }` + 1")).toEqual(false);
+});
+
+/**
+ * Test the SQL detector
+ */
+test("isIncompleteSqlInput()", () => {
+	expect(isIncompleteSqlInput("")).toEqual(false);
+	expect(isIncompleteSqlInput("SELECT * FROM foo")).toEqual(true);
+	expect(isIncompleteSqlInput("SELECT * FROM foo;")).toEqual(false);
+	expect(isIncompleteSqlInput("SELECT 1; -- done")).toEqual(false);
+	expect(isIncompleteSqlInput("SELECT ';'")).toEqual(true);
+	expect(isIncompleteSqlInput("SELECT 'it''s';")).toEqual(false);
+	expect(isIncompleteSqlInput("SELECT 'foo;")).toEqual(true);
+	expect(isIncompleteSqlInput("SELECT 1; /* ")).toEqual(true);
+});
@@ -0,0 +1,130 @@
+import { tokenizeShell } from "./ShellTokenizer";
+
+/**
+ * A function that tells if the input is incomplete, in which case the
+ * user continues it in a new line instead of submitting it
+ */
+export type IncompleteInputDetector = (input: string) => boolean;
+
+/**
+ * Returns the offset after the closing `quote`, or -1 if the quote is not
+ * closed
+ */
+function skipQuoted(input: string, offset: number, quote: string): number {
+	const end = input.indexOf(quote, offset);
+	return end === -1 ? -1 : end + 1;
+}
+
+/**
+ * Checks if a POSIX shell command is incomplete
+ *
+ * The command is incomplete if it has unterminated quotes or backticks,
+ * unbalanced parentheses, a here-document without its delimiter line, or
+ * if it ends with a backslash or with a `&&`, `||` or `|` operator.
+ */
+export function isIncompleteShellInput(input: string): boolean {
+	let depth = 0;
+	let pendingOperator = false;
+
+	for (const { type, text, unterminated } of tokenizeShell(input)) {
+		if (unterminated) return true;
+
+		if (type === "word") {
+			pendingOperator = false;
+		} else if (type === "operator") {
+			if (text === "(" || text === "<(") ++depth;
+			else if (text === ")") depth = Math.max(0, depth - 1);
+			pendingOperator = ["&&", "||", "|", "|&"].includes(text);
+		}
+	}
+
+	return pendingOperator || depth > 0;
+}
+
+/**
+ * Checks if the input of a language with C-like brackets, strings and
+ * comments (such as JavaScript) is incomplete
+ *
+ * The input is incomplete if it has unbalanced brackets, an unterminated
+ * block comment or an unterminated template literal (including the
+ * `${...}` expressions in it). Mismatched brackets are left for the
+ * interpreter to report.
+ */
+export function isIncompleteBracketedInput(input: string): boolean {
+	const closers: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+	const stack: string[] = [];
+
+	for (let i = 0; i < input.length; ++i) {
+		const ch = input[i];
+
+		// Inside a template literal, only the expressions are code
+		if (stack[stack.length - 1] === "`") {
+			if (ch === "\\") ++i;
+			else if (ch === "`") stack.pop();
+			else if (input.startsWith("${", i)) {
+				stack.push("${");
+				++i;
+			}
+			continue;
+		}
+
+		if (input.startsWith("//", i)) {
+			const end = input.indexOf("\n", i);
+			i = (end === -1 ? input.length : end) - 1;
+		} else if (input.startsWith("/*", i)) {
+			const end = input.indexOf("*/", i + 2);
+			if (end === -1) return true;
+			i = end + 1;
+		} else if (ch === "'" || ch === '"') {
+			// Strings do not span lines, so an unterminated one ends there
+			let end = i + 1;
+			while (end < input.length && input[end] !== ch) {
+				if (input[end] === "\n") break;
+				end += input[end] === "\\" ? 2 : 1;
+			}
+			i = end;
+		} else if (ch === "`") {
+			stack.push("`");
+		} else if (ch in closers) {
+			stack.push(ch);
+		} else if (ch === ")" || ch === "]" || ch === "}") {
+			const open = stack.pop();
+			const expected = open === "${" ? "}" : closers[open || ""];
+			if (expected !== ch) return false;
+		}
+	}
+
+	return stack.length > 0;
+}
+
+/**
+ * Checks if an SQL statement is incomplete, because it does not end with a
+ * semicolon or it has an unterminated string, quoted identifier or comment
+ */
+export function isIncompleteSqlInput(input: string): boolean {
+	let terminated = true;
+
+	for (let i = 0; i < input.length; ++i) {
+		const ch = input[i];
+
+		if (input.startsWith("--", i)) {
+			const end = input.indexOf("\n", i);
+			i = (end === -1 ? input.length : end) - 1;
+		} else if (input.startsWith("/*", i)) {
+			const end = input.indexOf("*/", i + 2);
+			if (end === -1) return true;
+			i = end + 1;
+		} else if (ch === "'" || ch === '"') {
+			// Quotes are escaped by doubling them
+			i = skipQuoted(input, i + 1, ch) - 1;
+			if (i < 0) return true;
+			terminated = false;
+		} else if (ch === ";") {
+			terminated = true;
+		} else if (!/\s/.test(ch)) {
+			terminated = false;
+		}
+	}
+
+	return !terminated;
+}
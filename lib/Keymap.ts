@@ -0,0 +1,94 @@
+/**
+ * The built-in editing actions that can be bound to keys
+ */
+export type EditingAction =
+	| "accept-line"
+	| "backward-char"
+	| "forward-char"
+	| "backward-word"
+	| "forward-word"
+	| "beginning-of-line"
+	| "end-of-line"
+	| "previous-history"
+	| "next-history"
+	| "reverse-search-history"
+	| "forward-search-history"
+	| "backward-delete-char"
+	| "delete-char"
+	| "delete-char-or-eof"
+	| "backward-kill-word"
+	| "kill-word"
+	| "kill-line"
+	| "unix-line-discard"
+	| "unix-word-rubout"
+	| "yank"
+	| "yank-pop"
+	| "undo"
+	| "redo"
+	| "complete"
+	| "interrupt"
+	| "clear-screen";
+
+/**
+ * The editing state exposed to the custom key binding handlers
+ */
+export interface KeyBindingContext {
+	readonly input: string;
+	readonly cursor: number;
+	setInput(input: string, cursor?: number): void;
+	setCursor(cursor: number): void;
+	insert(text: string): void;
+	runAction(action: EditingAction): void;
+}
+
+/**
+ * A custom key binding handler, called with the editing state and the
+ * key sequence that triggered it
+ */
+export type KeyBindingHandler = (
+	context: KeyBindingContext,
+	sequence: string,
+) => void;
+
+/**
+ * A key sequence can be bound either to an editing action or to a handler
+ */
+export type KeyBinding = EditingAction | KeyBindingHandler;
+
+/**
+ * The default key bindings
+ *
+ * Each key sequence is the data the terminal sends for a single key press.
+ * The map is frozen, the bindings of a controller are changed with its
+ * `bindKey()` and `unbindKey()` methods.
+ */
+export const DEFAULT_KEYMAP: Readonly<Record<string, EditingAction>> =
+	Object.freeze({
+		"\r": "accept-line",
+		"\x7F": "backward-delete-char",
+		"\t": "complete",
+		"\x03": "interrupt", // CTRL+C
+		"\x04": "delete-char-or-eof", // CTRL+D
+		"\x0c": "clear-screen", // CTRL+L
+		"\x0b": "kill-line", // CTRL+K
+		"\x15": "unix-line-discard", // CTRL+U
+		"\x17": "unix-word-rubout", // CTRL+W
+		"\x19": "yank", // CTRL+Y
+		"\x12": "reverse-search-history", // CTRL+R
+		"\x13": "forward-search-history", // CTRL+S
+		"\x1b[A": "previous-history", // Up arrow
+		"\x1b[B": "next-history", // Down arrow
+		"\x1b[D": "backward-char", // Left arrow
+		"\x1b[C": "forward-char", // Right arrow
+		"\x1b[3~": "delete-char", // Delete
+		"\x1b[F": "end-of-line", // End
+		"\x1b[H": "beginning-of-line", // Home
+		"\x1bb": "backward-word", // ALT + LEFT
+		"\x1bf": "forward-word", // ALT + RIGHT
+		"\x1b\x7F": "backward-kill-word", // ALT + BACKSPACE
+		"\x1bd": "kill-word", // ALT + D
+		"\x1by": "yank-pop", // ALT + Y
+		"\x1f": "undo", // CTRL+_
+		"\x1a": "undo", // CTRL+Z
+		"\x1b_": "redo", // ALT + _
+	});
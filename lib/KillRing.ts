@@ -0,0 +1,60 @@
+/**
+ * The kill ring keeps the text removed by the kill commands, so that it
+ * can be yanked back later on, just like GNU readline does.
+ */
+export class KillRing {
+	private size: number;
+	private entries: string[];
+	private cursor: number;
+
+	constructor(size: number) {
+		this.size = size;
+		this.entries = [];
+		this.cursor = 0;
+	}
+
+	/**
+	 * Store a killed text fragment
+	 *
+	 * When `merge` is set, the text is combined with the most recent entry
+	 * instead of creating a new one. Text killed backwards is prepended,
+	 * while text killed forward is appended.
+	 */
+	kill(
+		text: string,
+		merge: boolean = false,
+		backward: boolean = false,
+	): void {
+		if (text === "") return;
+
+		if (merge && this.entries.length > 0) {
+			const last = this.entries.length - 1;
+			this.entries[last] = backward
+				? text + this.entries[last]
+				: this.entries[last] + text;
+		} else {
+			this.entries.push(text);
+			if (this.entries.length > this.size) {
+				this.entries.shift();
+			}
+		}
+		this.cursor = this.entries.length - 1;
+	}
+
+	/**
+	 * Returns the entry under the yank cursor
+	 */
+	yank(): string | undefined {
+		return this.entries[this.cursor];
+	}
+
+	/**
+	 * Rotates the yank cursor to the previous (older) entry and returns it
+	 */
+	rotate(): string | undefined {
+		if (this.entries.length === 0) return undefined;
+		this.cursor =
+			(this.cursor - 1 + this.entries.length) % this.entries.length;
+		return this.entries[this.cursor];
+	}
+}
@@ -0,0 +1,1237 @@
+import { EOFError, InterruptError, TimeoutError } from "./Errors";
+import { HeadlessTerminal } from "./HeadlessTerminal";
+import { DEFAULT_KEYMAP } from "./Keymap";
+import LocalEchoController from "./LocalEchoController";
+
+import { Terminal } from "@xterm/xterm";
+import { expect, test } from "vitest";
+
+/**
+ * Creates a controller attached to a headless terminal of the given size
+ */
+function setup(cols: number = 20, rows: number = 6, options = {}) {
+	const term = new HeadlessTerminal(cols, rows);
+	const localEcho = new LocalEchoController(
+		term as unknown as Terminal,
+		options,
+	);
+	const type = (text: string) => term.type(...text);
+	return { term, localEcho, type };
+}
+
+/**
+ * Test typing and editing in the middle of the input
+ */
+test("LocalEchoController editing", async () => {
+	const { term, localEcho, type } = setup();
+	const input = localEcho.read("~$ ");
+
+	type("hello world");
+	expect(term.getLine(0)).toEqual("~$ hello world");
+	expect(term.cursor).toEqual({ x: 14, y: 0 });
+
+	// Insert before the last word and delete a character
+	term.type("\x1bb", "\x1b[D");
+	type("!");
+	term.type("\x1b[H", "\x1b[3~");
+	expect(term.getLine(0)).toEqual("~$ ello! world");
+	expect(term.cursor).toEqual({ x: 3, y: 0 });
+
+	// Kill the last word and yank it at the beginning
+	term.type("\x1b[F", "\x17", "\x1b[H", "\x19");
+	expect(term.getLine(0)).toEqual("~$ worldello!");
+	expect(term.cursor).toEqual({ x: 8, y: 0 });
+
+	term.type("\x1f");
+	expect(term.getLine(0)).toEqual("~$ ello!");
+	expect(term.cursor).toEqual({ x: 3, y: 0 });
+
+	term.type("\r");
+	expect(await input).toEqual("ello! ");
+	expect(term.getScreen().slice(0, 2)).toEqual(["~$ ello!", ""]);
+	expect(term.cursor).toEqual({ x: 0, y: 1 });
+});
+
+/**
+ * Test navigating the history
+ */
+test("LocalEchoController history", async () => {
+	const { term, localEcho, type } = setup();
+
+	for (const command of ["ls", "cd foo"]) {
+		const input = localEcho.read("$ ");
+		type(command + "\r");
+		await input;
+	}
+
+	const input = localEcho.read("$ ");
+	type("pwd");
+	term.type("\x1b[A");
+	expect(term.getLine(2)).toEqual("$ cd foo");
+	term.type("\x1b[A", "\x1b[A");
+	expect(term.getLine(2)).toEqual("$ ls");
+	term.type("\x1b[B");
+	expect(term.getLine(2)).toEqual("$ cd foo");
+	expect(term.cursor).toEqual({ x: 8, y: 2 });
+
+	term.type("\r");
+	expect(await input).toEqual("cd foo");
+	expect(term.getText()).toEqual("$ ls\n$ cd foo\n$ cd foo");
+});
+
+/**
+ * Test navigating the history entries that start with the input, after
+ * navigating through all of them
+ */
+test("LocalEchoController history prefix search", async () => {
+	const { term, localEcho, type } = setup(20, 8, {
+		historyPrefixSearch: true,
+	});
+	for (const command of ["git a", "git b", "ls", "git c", "pwd"]) {
+		const input = localEcho.read("$ ");
+		type(command + "\r");
+		await input;
+	}
+
+	// All the entries are navigated from an empty input
+	const input = localEcho.read("$ ");
+	term.type("\x1b[A", "\x15", "\x1b[A");
+	expect(term.getLine(5)).toEqual("$ git c");
+
+	// The prefix navigation starts over from the most recent entry
+	term.type("\x15");
+	type("git ");
+	term.type("\x1b[A");
+	expect(term.getLine(5)).toEqual("$ git c");
+	term.type("\x1b[A", "\x1b[A");
+	expect(term.getLine(5)).toEqual("$ git a");
+	term.type("\x1b[B", "\x1b[B", "\x1b[B");
+	expect(term.getLine(5)).toEqual("$ git");
+	expect(term.cursor).toEqual({ x: 6, y: 5 });
+
+	term.type("\r");
+	expect(await input).toEqual("git ");
+});
+
+/**
+ * Test searching the history incrementally
+ */
+test("LocalEchoController history search", async () => {
+	const { term, localEcho, type } = setup(40, 8);
+	for (const command of ["git add", "ls", "git commit", "git push"]) {
+		const input = localEcho.read("$ ");
+		type(command + "\r");
+		await input;
+	}
+
+	// Repeating ctrl+r moves to the older matches, until there are none
+	const input = localEcho.read("$ ");
+	type("pwd");
+	term.type("\x12");
+	type("git");
+	expect(term.getLine(4)).toEqual("(reverse-i-search)`git': git push");
+	expect(term.cursor).toEqual({ x: 25, y: 4 });
+	term.type("\x12");
+	expect(term.getLine(4)).toEqual("(reverse-i-search)`git': git commit");
+	term.type("\x12", "\x12");
+	expect(term.getLine(4)).toEqual("(failed reverse-i-search)`git': git add");
+
+	// Escape and ctrl+g restore the input the search started with
+	term.type("\x1b");
+	expect(term.getLine(4)).toEqual("$ pwd");
+	expect(term.cursor).toEqual({ x: 5, y: 4 });
+	term.type("\x12");
+	type("ls");
+	term.type("\x07");
+	expect(term.getLine(4)).toEqual("$ pwd");
+
+	// Enter accepts the match and submits it
+	term.type("\x12");
+	type("comx");
+	term.type("\x7f", "\r");
+	expect(await input).toEqual("git commit");
+	expect(term.getLine(4)).toEqual("$ git commit");
+});
+
+/**
+ * Test that the prefix navigation and the yanked text do not outlive the
+ * read they were started in
+ */
+test("LocalEchoController history prefix search after an abort", async () => {
+	const { term, localEcho, type } = setup(20, 8, {
+		historyPrefixSearch: true,
+	});
+	for (const command of ["git a", "ls"]) {
+		const input = localEcho.read("$ ");
+		type(command + "\r");
+		await input;
+	}
+
+	let aborted = localEcho.read("$ ");
+	type("gi");
+	term.type("\x1b[A");
+	expect(term.getLine(2)).toEqual("$ git a");
+	localEcho.abortRead();
+	await expect(aborted).rejects.toThrow();
+
+	// The aborted input is not restored, and an empty input navigates all
+	// the entries from the most recent one
+	let input = localEcho.read("$ ");
+	term.type("\x1b[B");
+	expect(term.getLine(3)).toEqual("$");
+	term.type("\x1b[A");
+	expect(term.getLine(3)).toEqual("$ ls");
+	term.type("\x15", "\r");
+	expect(await input).toEqual("");
+
+	// Alt-y only rotates the text yanked in the same read
+	aborted = localEcho.read("$ ");
+	type("a");
+	term.type("\x17");
+	type("b");
+	term.type("\x17", "\x19");
+	expect(term.getLine(4)).toEqual("$ b");
+	localEcho.abortRead();
+	await expect(aborted).rejects.toThrow();
+
+	input = localEcho.read("$ ");
+	term.type("\x1by");
+	expect(term.getLine(5)).toEqual("$");
+	term.type("\r");
+	expect(await input).toEqual("");
+});
+
+/**
+ * Test that a search does not outlive the read it was started in
+ */
+test("LocalEchoController history search after an abort", async () => {
+	const { term, localEcho, type } = setup(40, 8);
+	const first = localEcho.read("$ ");
+	type("ls\r");
+	await first;
+
+	const aborted = localEcho.read("$ ");
+	term.type("\x12");
+	type("l");
+	expect(term.getLine(1)).toEqual("(reverse-i-search)`l': ls");
+	localEcho.abortRead();
+	await expect(aborted).rejects.toThrow();
+
+	const input = localEcho.read("$ ");
+	type("pwd");
+	expect(term.getLine(2)).toEqual("$ pwd");
+	term.type("\r");
+	expect(await input).toEqual("pwd");
+});
+
+/**
+ * Test editing input that wraps across multiple lines
+ */
+test("LocalEchoController wrapping", async () => {
+	const { term, localEcho, type } = setup(10, 4);
+	const input = localEcho.read("$ ");
+
+	type("0123456789abcd");
+	expect(term.getScreen()).toEqual(["$ 01234567", "89abcd", "", ""]);
+	expect(term.cursor).toEqual({ x: 6, y: 1 });
+
+	// Move back across the wrap and delete there
+	term.type(...Array(7).fill("\x1b[D"));
+	expect(term.cursor).toEqual({ x: 9, y: 0 });
+	term.type("\x7f");
+	expect(term.getScreen()).toEqual(["$ 01234578", "9abcd", "", ""]);
+	expect(term.cursor).toEqual({ x: 8, y: 0 });
+
+	// Filling the last column exactly does not leave an extra line
+	term.type("\x1b[F", ...Array(5).fill("\x7f"));
+	expect(term.getScreen()).toEqual(["$ 01234578", "", "", ""]);
+	expect(term.cursor).toEqual({ x: 9, y: 0 });
+	term.type("\x1b[D");
+	expect(term.cursor).toEqual({ x: 9, y: 0 });
+	term.type("\x1b[D");
+	expect(term.cursor).toEqual({ x: 8, y: 0 });
+
+	term.type("\r");
+	expect(await input).toEqual("01234578");
+	expect(term.cursor).toEqual({ x: 0, y: 1 });
+});
+
+/**
+ * Test killing text and yanking it back from the kill ring
+ */
+test("LocalEchoController kill ring", async () => {
+	const { term, localEcho, type } = setup(30, 6);
+	const input = localEcho.read("$ ");
+
+	// Consecutive kills are merged into a single entry
+	type("one two three");
+	term.type("\x17", "\x17");
+	expect(term.getLine(0)).toEqual("$ one");
+	type("x");
+	term.type("\x1b[H", "\x1bd");
+	expect(term.getLine(0)).toEqual("$  x");
+
+	// Alt+y replaces the yanked text with the older entries, in turn
+	term.type("\x1b[F", "\x19");
+	expect(term.getLine(0)).toEqual("$  xone");
+	term.type("\x1by");
+	expect(term.getLine(0)).toEqual("$  xtwo three");
+	term.type("\x1by");
+	expect(term.getLine(0)).toEqual("$  xone");
+
+	// It does nothing after any other key
+	type("!");
+	term.type("\x1by");
+	expect(term.getLine(0)).toEqual("$  xone!");
+
+	term.type("\r");
+	expect(await input).toEqual(" xone!");
+});
+
+/**
+ * Test displaying and accepting inline suggestions
+ */
+test("LocalEchoController suggestions", async () => {
+	const { term, localEcho, type } = setup(12, 6);
+	const commands = ["git status --short", "git stash"];
+	localEcho.addSuggestionSource((input) =>
+		commands.find((command) => command.startsWith(input)),
+	);
+	const input = localEcho.read("$ ");
+
+	// The suggestion is displayed after the cursor, wrapping like the input
+	type("gi");
+	expect(term.getScreen().slice(0, 2)).toEqual(["$ git status", " --short"]);
+	expect(term.cursor).toEqual({ x: 4, y: 0 });
+
+	// Alt+f accepts the next word of it
+	term.type("\x1bf");
+	expect(term.cursor).toEqual({ x: 5, y: 0 });
+	term.type("\x1bf");
+	expect(term.cursor).toEqual({ x: 11, y: 0 });
+
+	// It is cleared from the wrapped line when it no longer matches
+	type("x");
+	expect(term.getScreen().slice(0, 2)).toEqual(["$ git status", "x"]);
+
+	// Right accepts all of it
+	term.type("\x7f", "\x1b[C");
+	expect(term.getScreen().slice(0, 2)).toEqual(["$ git status", " --short"]);
+	expect(term.cursor).toEqual({ x: 8, y: 1 });
+
+	// And so does end
+	term.type("\x15");
+	type("git stas");
+	expect(term.getScreen().slice(0, 2)).toEqual(["$ git stash", ""]);
+	expect(term.cursor).toEqual({ x: 10, y: 0 });
+	term.type("\x1b[F", "\r");
+	expect(await input).toEqual("git stash");
+});
+
+/**
+ * Test continuing incomplete input in new lines
+ */
+test("LocalEchoController continuation", async () => {
+	const { term, localEcho, type } = setup();
+	const input = localEcho.read("$ ", "> ");
+
+	type("echo 'foo\rbar' |\r");
+	expect(term.getScreen().slice(0, 4)).toEqual([
+		"$ echo 'foo",
+		"> bar' |",
+		">",
+		"",
+	]);
+
+	// Navigate to the previous line and edit it
+	term.type("\x1b[D", "\x1b[D");
+	expect(term.cursor).toEqual({ x: 7, y: 1 });
+	type("!");
+	expect(term.getLine(1)).toEqual("> bar' !|");
+
+	term.type("\x1b[F");
+	type("wc\r");
+	expect(await input).toEqual("echo 'foo\nbar' !|\nwc");
+});
+
+/**
+ * Test auto-completing the input
+ */
+test("LocalEchoController completion", async () => {
+	const { term, localEcho, type } = setup(30, 6);
+	localEcho.addAutocompleteHandler((index: number) =>
+		index === 0 ? ["cat", "cd", "chmod"] : ["foo.txt"],
+	);
+	const input = localEcho.read("$ ");
+
+	// A single candidate is completed right away
+	type("ca\t");
+	expect(term.cursor).toEqual({ x: 6, y: 0 });
+	type("f\t");
+	expect(term.getLine(0)).toEqual("$ cat foo.txt");
+	expect(term.cursor).toEqual({ x: 14, y: 0 });
+
+	// Multiple candidates are listed under the prompt
+	term.type("\x15");
+	type("c\t");
+	expect(term.getScreen().slice(0, 3)).toEqual([
+		"$ c",
+		"cat    cd     chmod",
+		"$ c",
+	]);
+	expect(term.cursor).toEqual({ x: 3, y: 2 });
+
+	type("h\t\r");
+	expect(await input).toEqual("chmod ");
+});
+
+/**
+ * Test completing quoted tokens and candidates with special characters
+ */
+test("LocalEchoController quoted completion", async () => {
+	const { term, localEcho, type } = setup(40, 6);
+	localEcho.addAutocompleteHandler(() => ["my file.txt", "my files"]);
+	const input = localEcho.read("$ ");
+
+	// The shared fragment is escaped, and the final candidate too
+	type("cat m\t");
+	expect(term.getScreen().slice(0, 3)).toEqual([
+		"$ cat my\\ file",
+		"my file.txt  my files",
+		"$ cat my\\ file",
+	]);
+	type(".\t");
+	expect(term.getLine(2)).toEqual("$ cat my\\ file.txt");
+
+	// The quote left open is closed by the final candidate
+	term.type("\x15");
+	type(`cat "my files\t\r`);
+	expect(await input).toEqual(`cat "my files" `);
+});
+
+/**
+ * Test selecting a candidate from the completion menu
+ */
+test("LocalEchoController completion menu", async () => {
+	const { term, localEcho, type } = setup(30, 6, { autocompleteMenu: true });
+	localEcho.addAutocompleteHandler(() => ["cat", "cd", "chmod"]);
+	const input = localEcho.read("$ ");
+
+	type("c\t");
+	expect(term.getScreen().slice(0, 3)).toEqual([
+		"$ c",
+		"cat    cd     chmod",
+		"",
+	]);
+
+	// Cycle through the candidates and accept one
+	type("\t\t");
+	expect(term.getScreen().slice(0, 2)).toEqual([
+		"$ cd",
+		"cat    cd     chmod",
+	]);
+	expect(term.cursor).toEqual({ x: 4, y: 0 });
+
+	type("\r");
+	expect(term.getScreen().slice(0, 2)).toEqual(["$ cd", ""]);
+	type("\r");
+	expect(await input).toEqual("cd ");
+});
+
+/**
+ * Test navigating the completion menu through the groups, in the order the
+ * candidates are displayed
+ */
+test("LocalEchoController grouped completion menu", async () => {
+	const { term, localEcho, type } = setup(30, 8, { autocompleteMenu: true });
+	localEcho.addAutocompleteHandler(() => [
+		{ value: "stop", group: "Actions", description: "Stop it" },
+		{ value: "status", group: "Info" },
+		{ value: "start", group: "Actions", description: "Start it" },
+	]);
+	const input = localEcho.read("$ ");
+
+	type("s\t");
+	expect(term.getScreen().slice(0, 6)).toEqual([
+		"$ st",
+		"Actions",
+		"start  -- Start it",
+		"stop   -- Stop it",
+		"Info",
+		"status",
+	]);
+
+	// Tab follows the groups
+	type("\t\t");
+	expect(term.getLine(0)).toEqual("$ stop");
+	type("\t");
+	expect(term.getLine(0)).toEqual("$ status");
+
+	// The lines are stepped through from top to bottom
+	term.type("\x1b[B");
+	expect(term.getLine(0)).toEqual("$ start");
+	term.type("\x1b[B");
+	expect(term.getLine(0)).toEqual("$ stop");
+	term.type("\x1b[A", "\x1b[A");
+	expect(term.getLine(0)).toEqual("$ status");
+
+	type("\r\r");
+	expect(await input).toEqual("status ");
+});
+
+/**
+ * Test pasting text with the bracketed paste mode
+ */
+test("LocalEchoController paste", async () => {
+	const { term, localEcho } = setup(30, 6);
+	const requests: number[] = [];
+	localEcho.addAutocompleteHandler((index: number) => {
+		requests.push(index);
+		return ["nope"];
+	});
+	const input = localEcho.read("$ ");
+
+	// The markers may be split across chunks, and a pasted tab does not
+	// trigger the completion
+	term.type("\x1b[20", "0~echo a\tb", "\x1b[2", "01~");
+	expect(term.getLine(0)).toEqual("$ echo a    b");
+	expect(requests).toEqual([]);
+	term.type("\r");
+	expect(await input).toEqual("echo a    b");
+});
+
+/**
+ * Test submitting the pasted lines, right away or once confirmed
+ */
+test("LocalEchoController paste new-lines", async () => {
+	const submit = setup(30, 6, { pasteNewlines: "submit" });
+	const first = submit.localEcho.read("$ ");
+	submit.term.paste("ls\npwd\ncat");
+	expect(await first).toEqual("ls");
+	expect(await submit.localEcho.read("$ ")).toEqual("pwd");
+	submit.localEcho.read("$ ");
+	expect(submit.term.getScreen().slice(0, 4)).toEqual([
+		"$ ls",
+		"$ pwd",
+		"$ cat",
+		"",
+	]);
+
+	const confirm = setup(40, 6, { pasteNewlines: "confirm" });
+	const accepted = confirm.localEcho.read("$ ");
+	confirm.term.paste("ls\npwd\n");
+	await new Promise((resolve) => setTimeout(resolve, 0));
+	expect(confirm.term.getLine(1)).toEqual("Run 2 pasted lines? (y or n)");
+	confirm.term.type("y");
+	expect(await accepted).toEqual("ls");
+	expect(await confirm.localEcho.read("$ ")).toEqual("pwd");
+
+	// The lines are dropped if the user does not confirm
+	const declined = confirm.localEcho.read("$ ");
+	confirm.term.paste("rm\nrm\n");
+	await new Promise((resolve) => setTimeout(resolve, 0));
+	confirm.term.type("n", "\r");
+	expect(await declined).toEqual("");
+});
+
+/**
+ * Test that keys looking like the beginning of a paste marker are only
+ * kept back for a short while
+ */
+test("LocalEchoController paste marker prefix", async () => {
+	const { term, localEcho } = setup();
+	const keys: string[] = [];
+	localEcho.bindKey("\x1b[", (ctx, sequence) => void keys.push(sequence));
+	const input = localEcho.read("$ ");
+
+	term.type("\x1b[");
+	expect(keys).toEqual([]);
+	await new Promise((resolve) => setTimeout(resolve, 60));
+	expect(keys).toEqual(["\x1b["]);
+
+	// The rest of a marker that arrives in time starts a paste
+	term.type("\x1b[", "200~ls", "\x1b[201~", "\r");
+	expect(await input).toEqual("ls");
+	expect(keys).toEqual(["\x1b["]);
+
+	// Nothing is kept back without bracketed paste
+	const unbracketed = setup(20, 6, { bracketedPaste: false });
+	unbracketed.localEcho.bindKey("\x1b[", (ctx, sequence) => {
+		keys.push(sequence);
+	});
+	unbracketed.localEcho.read("$ ");
+	unbracketed.term.type("\x1b[");
+	expect(keys).toEqual(["\x1b[", "\x1b["]);
+});
+
+/**
+ * Test the vi normal mode motions and the mode indicator
+ */
+test("LocalEchoController vi motions", async () => {
+	const { term, localEcho, type } = setup(40, 6, { editMode: "vi" });
+	const input = localEcho.read("$ ");
+	expect(term.getLine(0)).toEqual("(ins) $");
+	type("one two three");
+
+	// Escape redraws the indicator and moves onto the last character
+	term.type("\x1b");
+	expect(term.getLine(0)).toEqual("(cmd) $ one two three");
+	expect(term.cursor).toEqual({ x: 20, y: 0 });
+
+	const cursorAfter = (...keys: string[]) => {
+		term.type(...keys);
+		return term.cursor.x - "(cmd) $ ".length;
+	};
+	expect(cursorAfter("0")).toEqual(0);
+	expect(cursorAfter("w")).toEqual(4);
+	expect(cursorAfter("2", "w")).toEqual(12);
+	expect(cursorAfter("b")).toEqual(8);
+	expect(cursorAfter("e")).toEqual(12);
+	expect(cursorAfter("0", "e")).toEqual(2);
+	expect(cursorAfter("$")).toEqual(12);
+	expect(cursorAfter("h")).toEqual(11);
+	expect(cursorAfter("\x7f")).toEqual(10);
+	expect(cursorAfter("3", "l")).toEqual(12);
+
+	// The insert commands switch back to the insert mode
+	term.type("I");
+	type("> ");
+	term.type("\x1b", "A");
+	type("!");
+	expect(term.getLine(0)).toEqual("(ins) $ > one two three!");
+	term.type("\x1b", "0", "a");
+	type(">");
+	expect(term.getLine(0)).toEqual("(ins) $ >> one two three!");
+
+	term.type("\r");
+	expect(await input).toEqual(">> one two three!");
+});
+
+/**
+ * Test the vi operators, with their counts and motions
+ */
+test("LocalEchoController vi operators", async () => {
+	const { term, localEcho, type } = setup(40, 6, { editMode: "vi" });
+	const input = localEcho.read("$ ");
+	const line = () => term.getLine(0).substr("(cmd) $ ".length);
+
+	type("one two three four");
+	term.type("\x1b", "0", "d", "w");
+	expect(line()).toEqual("two three four");
+	term.type("2", "d", "w");
+	expect(line()).toEqual("four");
+	term.type("u", "u", "d", "2", "w");
+	expect(line()).toEqual("three four");
+	term.type("u");
+
+	// Changing a word keeps the space after it
+	term.type("w", "c", "w");
+	type("TWO");
+	term.type("\x1b");
+	expect(term.getLine(0)).toEqual("(cmd) $ one TWO three four");
+	term.type("$", "d", "b");
+	expect(line()).toEqual("one TWO three r");
+	term.type("d", "d");
+	expect(line()).toEqual("");
+	term.type("u", "u");
+
+	// Yanked text (here "one ") is put after or before the cursor
+	term.type("0", "y", "w", "$", "p");
+	expect(line()).toEqual("one TWO three fourone");
+	term.type("0", "P");
+	expect(line()).toEqual("one one TWO three fourone");
+	expect(term.cursor.x).toEqual(11);
+
+	// Deleting and replacing characters
+	term.type("x", "3", "x");
+	expect(line()).toEqual("one TWO three fourone");
+	term.type("$", "2", "X");
+	expect(line()).toEqual("one TWO three fouro");
+	term.type("0", "r", "O", "3", "r", "-");
+	expect(line()).toEqual("--- TWO three fouro");
+	term.type("w", "w", "D");
+	expect(line()).toEqual("--- TWO");
+	term.type("0", "C");
+	type("done");
+
+	term.type("\r");
+	expect(await input).toEqual("done");
+});
+
+/**
+ * Test undoing, redoing and navigating the history in vi normal mode
+ */
+test("LocalEchoController vi undo and history", async () => {
+	const { term, localEcho, type } = setup(40, 6, { editMode: "vi" });
+	for (const command of ["echo first", "echo second"]) {
+		const input = localEcho.read("$ ");
+		type(command + "\r");
+		await input;
+	}
+
+	const input = localEcho.read("$ ");
+	type("one two");
+	term.type("\x1b", "0", "d", "w", "x");
+	expect(term.getLine(2)).toEqual("(cmd) $ wo");
+	term.type("2", "u");
+	expect(term.getLine(2)).toEqual("(cmd) $ one two");
+	term.type("\x12");
+	expect(term.getLine(2)).toEqual("(cmd) $ two");
+
+	// The history is navigated with k and j, from the start of the entries
+	term.type("k");
+	expect(term.getLine(2)).toEqual("(cmd) $ echo second");
+	expect(term.cursor).toEqual({ x: 8, y: 2 });
+	term.type("2", "j");
+	expect(term.getLine(2)).toEqual("(cmd) $");
+	term.type("2", "k");
+	expect(term.getLine(2)).toEqual("(cmd) $ echo first");
+
+	term.type("\r");
+	expect(await input).toEqual("echo first");
+});
+
+/**
+ * Test that k and j navigate the history like the arrows, only in the
+ * reads that use it
+ */
+test("LocalEchoController vi history in a password read", async () => {
+	const { term, localEcho, type } = setup(40, 6, { editMode: "vi" });
+	const first = localEcho.read("$ ");
+	type("cmd\r");
+	await first;
+	const events: unknown[] = [];
+	localEcho.onHistoryNavigate((e) => events.push(e));
+
+	const password = localEcho.readPassword("Password: ");
+	type("hunter2");
+	term.type("\x1b", "k", "\r");
+	expect(await password).toEqual("hunter2");
+	expect(events).toEqual([]);
+
+	const input = localEcho.read("$ ");
+	term.type("\x1b", "k");
+	expect(term.getLine(2)).toEqual("(cmd) $ cmd");
+	expect(events).toEqual([{ entry: "cmd", index: 0 }]);
+	term.type("\r");
+	expect(await input).toEqual("cmd");
+});
+
+/**
+ * Test binding keys to editing actions and custom handlers
+ */
+test("LocalEchoController key bindings", async () => {
+	const { term, localEcho, type } = setup(30, 6, {
+		keyBindings: { "\x01": "beginning-of-line", "\x0b": null },
+	});
+	const sequences: string[] = [];
+	localEcho.bindKey("\x18", (ctx, sequence) => {
+		sequences.push(sequence);
+		ctx.setInput(ctx.input.toUpperCase(), ctx.cursor);
+		ctx.insert("<");
+		ctx.runAction("end-of-line");
+		ctx.insert(">");
+	});
+	expect(() => localEcho.bindKey("\x02", "nope" as any)).toThrow(TypeError);
+	expect(localEcho.getKeyBindings()["\x0b"]).toBeUndefined();
+
+	const input = localEcho.read("$ ");
+	type("hello world");
+	term.type("\x01", "\x1b[C", "\x0b");
+	term.type("\x18");
+	expect(term.getLine(0)).toEqual("$ H<ELLO WORLD>");
+	expect(sequences).toEqual(["\x18"]);
+
+	// Unbound control keys are ignored, until the defaults are restored
+	localEcho.unbindKey("\x15");
+	term.type("\x15");
+	expect(term.getLine(0)).toEqual("$ H<ELLO WORLD>");
+	localEcho.resetKeyBindings();
+	term.type("\x18", "\x15");
+	expect(term.getLine(0)).toEqual("$");
+	expect(localEcho.getKeyBindings()).toEqual(DEFAULT_KEYMAP);
+
+	term.type("\r");
+	expect(await input).toEqual("");
+});
+
+/**
+ * Test that the default key bindings cannot be changed
+ */
+test("DEFAULT_KEYMAP", () => {
+	expect(Object.isFrozen(DEFAULT_KEYMAP)).toBe(true);
+	expect(() => {
+		(DEFAULT_KEYMAP as Record<string, string>)["\r"] = "undo";
+	}).toThrow(TypeError);
+
+	const { localEcho } = setup();
+	localEcho.resetKeyBindings();
+	expect(localEcho.getKeyBindings()["\r"]).toEqual("accept-line");
+});
+
+/**
+ * Test that each key press is displayed in a single write, redrawing only
+ * the part of the input after the change
+ */
+test("LocalEchoController redraws", () => {
+	const { term, localEcho, type } = setup(20, 6);
+	const writes: string[] = [];
+	const write = term.write.bind(term);
+	term.write = (data: string) => {
+		writes.push(data);
+		write(data);
+	};
+	localEcho.read("$ ");
+
+	type("'hello\rworld");
+	writes.length = 0;
+	type("!");
+	expect(writes).toEqual(["!"]);
+
+	// Editing the first line rewrites the rest of the input
+	term.type("\x1b[H");
+	writes.length = 0;
+	type("X");
+	expect(writes).toEqual(["\x1b[JX'hello\r\n> world!\x1b[1A\r\x1b[3C"]);
+	expect(term.getScreen().slice(0, 3)).toEqual(["$ X'hello", "> world!", ""]);
+
+	writes.length = 0;
+	term.type("\x1b[F");
+	expect(writes).toEqual(["\x1b[1B\r\x1b[8C"]);
+});
+
+/**
+ * Test the events fired while editing and submitting the input
+ */
+test("LocalEchoController events", async () => {
+	const { term, localEcho, type } = setup();
+	localEcho.read("$ ");
+	type("ls\r");
+	const events: unknown[] = [];
+	localEcho.onInputChange((input) => events.push(["input", input]));
+	localEcho.onCursorMove((cursor) => events.push(["cursor", cursor]));
+	localEcho.onHistoryNavigate((e) => events.push(["history", e]));
+	localEcho.onSubmit((input) => events.push(["submit", input]));
+	localEcho.onCancel((e) => events.push(["cancel", e]));
+
+	const input = localEcho.read("$ ");
+	type("a");
+	term.type("\x1b[D", "\x1b[A");
+	expect(events).toEqual([
+		["input", ""],
+		["cursor", 0],
+		["input", "a"],
+		["cursor", 1],
+		["cursor", 0],
+		["input", "ls"],
+		["cursor", 2],
+		["history", { entry: "ls", index: 0 }],
+	]);
+
+	events.length = 0;
+	term.type("\x03");
+	expect(events).toEqual([
+		["cancel", { input: "ls", reason: "interrupt" }],
+		["input", ""],
+		["cursor", 0],
+	]);
+
+	events.length = 0;
+	type("pwd\r");
+	expect(await input).toEqual("pwd");
+	expect(events.slice(-1)).toEqual([["submit", "pwd"]]);
+});
+
+/**
+ * Test rejecting and rewriting the input before it is submitted
+ */
+test("LocalEchoController onBeforeSubmit()", async () => {
+	const { term, localEcho, type } = setup();
+	const handler = localEcho.onBeforeSubmit((input) =>
+		input === "" ? false : input.replace(/^ll\b/, "ls -l"),
+	);
+	const input = localEcho.read("$ ");
+
+	type("\r");
+	expect(term.cursor).toEqual({ x: 2, y: 0 });
+	type("ll\r");
+	expect(await input).toEqual("ls -l");
+	expect(term.getLine(0)).toEqual("$ ls -l");
+
+	handler.dispose();
+	const next = localEcho.read("$ ");
+	type("\r");
+	expect(await next).toEqual("");
+});
+
+/**
+ * Test deleting with Ctrl-D, ending the input on an empty line
+ */
+test("LocalEchoController end of input", async () => {
+	const { term, localEcho, type } = setup();
+	const input = localEcho.read("$ ");
+
+	type("ab");
+	term.type("\x1b[H", "\x04");
+	expect(term.getLine(0)).toEqual("$ b");
+	term.type("\x04", "\x04");
+	await expect(input).rejects.toBeInstanceOf(EOFError);
+	expect(term.cursor).toEqual({ x: 0, y: 1 });
+});
+
+/**
+ * Test clearing the screen with Ctrl-L
+ */
+test("LocalEchoController clear screen", () => {
+	const { term, localEcho, type } = setup(20, 4);
+	localEcho.println("hello");
+	localEcho.read("$ ");
+
+	type("ls");
+	term.type("\x1b[D", "\x0c");
+	expect(term.getScreen()).toEqual(["$ ls", "", "", ""]);
+	expect(term.cursor).toEqual({ x: 3, y: 0 });
+});
+
+/**
+ * Test the behaviors of Ctrl-C
+ */
+test("LocalEchoController interrupt", async () => {
+	let { term, localEcho, type } = setup();
+	localEcho.read("$ ");
+	type("ls\x03");
+	expect(term.getScreen().slice(0, 2)).toEqual(["$ ls^C", "$"]);
+
+	({ term, localEcho, type } = setup(20, 6, { interrupt: "reject" }));
+	const input = localEcho.read("$ ");
+	type("ls\x03");
+	await expect(input).rejects.toEqual(new InterruptError("ls"));
+	await expect(input).rejects.toHaveProperty("input", "ls");
+	expect(term.getScreen().slice(0, 2)).toEqual(["$ ls^C", ""]);
+
+	const interrupted: string[] = [];
+	({ term, localEcho, type } = setup(20, 6, {
+		interrupt: (input: string) => {
+			interrupted.push(input);
+			if (input === "exit") localEcho.abortRead("exit");
+		},
+	}));
+	const next = localEcho.read("$ ");
+	type("ls\x03exit\x03");
+	await expect(next).rejects.toEqual("exit");
+	expect(interrupted).toEqual(["ls", "exit"]);
+	expect(term.getScreen().slice(0, 3)).toEqual(["$ ls^C", "$ exit", ""]);
+});
+
+/**
+ * Test reading a secret that is masked and kept out of the history
+ */
+test("LocalEchoController readPassword()", async () => {
+	const { term, localEcho, type } = setup();
+	localEcho.addAutocompleteHandler(() => ["secret"]);
+
+	const silent = localEcho.readPassword("Password: ");
+	type("a'b\t");
+	expect(term.getLine(0)).toEqual("Password:");
+	expect(term.cursor).toEqual({ x: 10, y: 0 });
+	type("\r");
+	expect(await silent).toEqual("a'b");
+
+	const masked = localEcho.readPassword("Token: ", { mask: "*" });
+	type("tok😀n");
+	term.type("\x1b[D", "\x7f", "\x1b[A");
+	expect(term.getLine(1)).toEqual("Token: ****");
+	expect(term.cursor).toEqual({ x: 10, y: 1 });
+	term.type("\x15");
+	term.paste("xyz\nrest");
+	expect(await masked).toEqual("xyzn");
+
+	// Nothing of the secrets is left to recall, yank or undo
+	const input = localEcho.read("$ ");
+	term.type("\x1b[A", "\x19", "\x1f", "\r");
+	expect(await input).toEqual("");
+});
+
+/**
+ * Test that the secrets are never passed to the listeners, the handlers
+ * or the errors
+ */
+test("LocalEchoController readPassword() events", async () => {
+	const seen: unknown[] = [];
+	const listen = (localEcho: LocalEchoController) => {
+		localEcho.onInputChange((input) => seen.push(input));
+		localEcho.onCursorMove((cursor) => seen.push(cursor));
+		localEcho.onBeforeSubmit((input) => void seen.push(input));
+		localEcho.onSubmit((input) => seen.push(input));
+		localEcho.onCancel(({ input }) => seen.push(input));
+	};
+
+	const first = setup(20, 6, {
+		interrupt: (input: string) => seen.push(input),
+	});
+	listen(first.localEcho);
+	const password = first.localEcho.readPassword("Password: ");
+	first.type("hunter2\x03hunter2\r");
+	expect(await password).toEqual("hunter2");
+
+	const aborted = first.localEcho.readPassword("Password: ");
+	first.type("hunter2");
+	first.localEcho.abortRead();
+	await expect(aborted).rejects.toThrow();
+
+	const second = setup(20, 6, { interrupt: "reject" });
+	listen(second.localEcho);
+	const rejected = second.localEcho.readPassword("Password: ");
+	second.type("hunter2\x03");
+	const error = await rejected.catch((e) => e);
+	expect(error).toBeInstanceOf(InterruptError);
+	seen.push(error.input);
+
+	expect(seen.length).toBeGreaterThan(0);
+	expect(seen.filter((value) => value !== "" && value !== 0)).toEqual([]);
+});
+
+/**
+ * Test validating the input before it is submitted
+ */
+test("LocalEchoController readInput()", async () => {
+	const { term, localEcho, type } = setup();
+	const input = localEcho.readInput("Port: ", (value) =>
+		/^\d+$/.test(value) ? null : "Not a number",
+	);
+
+	type("80a\r");
+	expect(term.getScreen().slice(0, 3)).toEqual([
+		"Port: 80a",
+		"Not a number",
+		"",
+	]);
+	expect(term.cursor).toEqual({ x: 9, y: 0 });
+
+	// The error is erased as soon as the input changes
+	term.type("\x7f");
+	expect(term.getLine(1)).toEqual("");
+	type("\r");
+	expect(await input).toEqual("80");
+});
+
+/**
+ * Test answering a yes or no question
+ */
+test("LocalEchoController readConfirm()", async () => {
+	const { term, localEcho, type } = setup();
+
+	const answer = localEcho.readConfirm("Delete? ");
+	type("xY");
+	expect(await answer).toBe(true);
+	const sure = localEcho.readConfirm("Sure? ", true);
+	type("\r");
+	expect(await sure).toBe(true);
+	expect(term.getScreen().slice(0, 3)).toEqual([
+		"Delete? (y/N) y",
+		"Sure? (Y/n) y",
+		"",
+	]);
+});
+
+/**
+ * Test that the confirmation and selection prompts do not take over a
+ * pending read
+ */
+test("LocalEchoController choice prompts while reading", async () => {
+	const { term, localEcho, type } = setup();
+
+	const input = localEcho.read("$ ");
+	type("ls");
+	await expect(localEcho.readConfirm("Sure? ")).rejects.toThrow(
+		"another read is active",
+	);
+	await expect(localEcho.readSelect("Pick: ", ["a"])).rejects.toThrow(
+		"another read is active",
+	);
+	type(" -l\r");
+	expect(await input).toEqual("ls -l");
+
+	const answer = localEcho.readConfirm("Sure? ");
+	await expect(localEcho.readMultiSelect("Pick: ", ["a"])).rejects.toThrow(
+		"another read is active",
+	);
+	type("y");
+	expect(await answer).toBe(true);
+	expect(term.getScreen().slice(0, 3)).toEqual([
+		"$ ls -l",
+		"Sure? (y/N) y",
+		"",
+	]);
+});
+
+/**
+ * Test selecting from a list, filtering it as the user types
+ */
+test("LocalEchoController readSelect()", async () => {
+	const { term, localEcho, type } = setup(20, 4);
+	const choice = localEcho.readSelect("Pick: ", [
+		"apple",
+		"banana",
+		{ label: "cherry pie", value: "cherry" },
+		"date",
+	]);
+	expect(term.getScreen()).toEqual([
+		"Pick:",
+		"> apple",
+		"  banana",
+		"  cherry pie",
+	]);
+
+	// The page scrolls to the selected choice
+	term.type("\x1b[B", "\x1b[B", "\x1b[B");
+	expect(term.getScreen().slice(1)).toEqual([
+		"  banana",
+		"  cherry pie",
+		"> date",
+	]);
+
+	type("an");
+	expect(term.getScreen()).toEqual(["Pick: an", "> banana", "", ""]);
+	expect(term.cursor).toEqual({ x: 8, y: 0 });
+	term.type("\x15");
+	type("y p");
+	term.resize(12, 4);
+	expect(term.getScreen()).toEqual(["Pick: y p", "> cherry pie", "", ""]);
+
+	type("\r");
+	expect(await choice).toEqual("cherry");
+	expect(term.getScreen()).toEqual(["Pick: cherry", " pie", "", ""]);
+});
+
+/**
+ * Test checking multiple choices of a list
+ */
+test("LocalEchoController readMultiSelect()", async () => {
+	const { term, localEcho, type } = setup();
+	const choices = localEcho.readMultiSelect("Toppings:", ["ham", "egg"], {
+		selected: ["egg"],
+	});
+	expect(term.getScreen().slice(0, 3)).toEqual([
+		"Toppings:",
+		"> [ ] ham",
+		"  [x] egg",
+	]);
+
+	type(" ");
+	term.type("\x1b[B");
+	type(" ");
+	expect(term.getScreen().slice(1, 3)).toEqual(["  [x] ham", "> [ ] egg"]);
+
+	type("\r");
+	expect(await choices).toEqual(["ham"]);
+	expect(term.getScreen().slice(0, 2)).toEqual(["Toppings:ham", ""]);
+});
+
+/**
+ * Test pre-filling the input and turning off features for a single read
+ */
+test("LocalEchoController read() options", async () => {
+	const { term, localEcho, type } = setup();
+	localEcho.addAutocompleteHandler(() => ["status"]);
+	const first = localEcho.read("$ ", { initialValue: "git st", cursor: 3 });
+	expect(term.getLine(0)).toEqual("$ git st");
+	expect(term.cursor).toEqual({ x: 5, y: 0 });
+	type("x\r");
+	expect(await first).toEqual("gitx st");
+
+	const input = localEcho.read("$ ", {
+		history: false,
+		completion: false,
+		continuation: false,
+	});
+	type("'st\t");
+	term.type("\x1b[A");
+	expect(term.getLine(1)).toEqual("$ 'st");
+	type("\r");
+	expect(await input).toEqual("'st");
+
+	// The input was not added to the history
+	const last = localEcho.read("$ ");
+	term.type("\x1b[A", "\r");
+	expect(await last).toEqual("gitx st");
+});
+
+/**
+ * Test turning off the history for a single read in vi mode
+ */
+test("LocalEchoController read() history option in vi mode", async () => {
+	const { term, localEcho, type } = setup(30, 6, { editMode: "vi" });
+	const first = localEcho.read("$ ");
+	type("ls\r");
+	await first;
+
+	const input = localEcho.read("$ ", { history: false });
+	type("pwd");
+	term.type("\x1b", "k");
+	expect(term.getLine(1)).toEqual("(cmd) $ pwd");
+	term.type("j");
+	expect(term.getLine(1)).toEqual("(cmd) $ pwd");
+	term.type("\r");
+	expect(await input).toEqual("pwd");
+
+	// The input was not added to the history
+	const last = localEcho.read("$ ");
+	term.type("\x1b", "k", "\r");
+	expect(await last).toEqual("ls");
+});
+
+/**
+ * Test cancelling a single read with a signal or a timeout
+ */
+test("LocalEchoController read() cancellation", async () => {
+	const { term, localEcho, type } = setup();
+	const controller = new AbortController();
+	const input = localEcho.read("$ ", { signal: controller.signal });
+	const char = localEcho.readChar("? ", { timeout: 10 });
+
+	await expect(char).rejects.toBeInstanceOf(TimeoutError);
+	type("ls");
+	controller.abort("stop");
+	await expect(input).rejects.toEqual("stop");
+	expect(term.getLine(1)).toEqual("$ ls");
+
+	const aborted = localEcho.read("$ ", { signal: controller.signal });
+	await expect(aborted).rejects.toEqual("stop");
+});
+
+/**
+ * Test printing messages above a prompt that spans multiple lines
+ */
+test("LocalEchoController printAbove()", async () => {
+	const { term, localEcho, type } = setup(10, 6);
+	localEcho.read("$ ");
+	type("echo '012345678\rab");
+	term.type("\x1b[D");
+	expect(term.getScreen().slice(0, 3)).toEqual([
+		"$ echo '01",
+		"2345678",
+		"> ab",
+	]);
+
+	const writes: string[] = [];
+	const write = term.write.bind(term);
+	term.write = (data: string) => {
+		writes.push(data);
+		write(data);
+	};
+	localEcho.printAbove("first");
+	localEcho.printAbove("second\n");
+	expect(writes).toEqual([]);
+	await new Promise((resolve) => setTimeout(resolve, 0));
+
+	expect(writes.length).toEqual(1);
+	expect(term.getScreen().slice(0, 5)).toEqual([
+		"first",
+		"second",
+		"$ echo '01",
+		"2345678",
+		"> ab",
+	]);
+	expect(term.cursor).toEqual({ x: 3, y: 4 });
+});
@@ -1,30 +1,189 @@
-import { HistoryController } from "./HistoryController";
+import { EOFError, InterruptError, TimeoutError } from "./Errors";
+import { Disposable, EventEmitter } from "./EventEmitter";
+import { HistoryController, HistoryMatch } from "./HistoryController";
+import { HistoryStorage } from "./HistoryStorage";
 import {
+	DEFAULT_KEYMAP,
+	EditingAction,
+	KeyBinding,
+	KeyBindingContext,
+} from "./Keymap";
+import {
+	IncompleteInputDetector,
+	isIncompleteShellInput,
+} from "./IncompleteInput";
+import { KillRing } from "./KillRing";
+import { EditState, UndoStack } from "./UndoStack";
+import {
+	activeStyles,
 	closestLeftBoundary,
+	closestLeftWhitespaceBoundary,
 	closestRightBoundary,
-	collectAutocompleteCandidates,
+	AutocompleteCallback,
+	collectAutocompleteCandidatesAsync,
+	commonPrefixLength,
+	CompletionCandidate,
+	CompletionToken,
 	countLines,
-	getLastToken,
+	getCompletionToken,
 	hasTailingWhitespace,
-	isIncompleteInput,
+	layoutCompletions,
 	offsetToColRow,
+	partialMarkerLength,
 	getSharedFragment,
+	graphemes,
+	nextGraphemeOffset,
+	previousGraphemeOffset,
+	quoteCompletion,
+	stringWidth,
+	stripAnsi,
+	styleRange,
+	wordBoundaries,
 } from "./utils";
 import { Terminal } from "@xterm/xterm";
 
 interface LocalEchoControllerOptions {
 	historySize?: number;
+	historyStorage?: HistoryStorage;
+	historyPrefixSearch?: boolean;
+	killRingSize?: number;
+	undoSize?: number;
 	maxAutocompleteEntries?: number;
+	autocompleteMenu?: boolean;
+	autosuggest?: boolean;
+	editMode?: EditMode;
+	viModeIndicator?: { insert: string; normal: string };
+	keyBindings?: Record<string, KeyBinding | null>;
+	highlighter?: Highlighter | null;
+	bracketedPaste?: boolean;
+	pasteNewlines?: PasteNewlines;
+	incompleteInputDetector?: IncompleteInputDetector;
+	interrupt?: InterruptMode | InterruptHandler;
+}
+
+interface ReadCharOptions {
+	signal?: AbortSignal;
+	timeout?: number;
+}
+
+interface ReadOptions extends ReadCharOptions {
+	initialValue?: string;
+	cursor?: number;
+	history?: boolean;
+	completion?: boolean;
+	continuation?: boolean;
+	incompleteInputDetector?: IncompleteInputDetector;
+	mask?: string;
+	validator?: InputValidator;
+}
+
+interface PasswordOptions extends ReadCharOptions {
+	mask?: string;
+}
+
+interface SelectOptions {
+	pageSize?: number;
+}
+
+interface MultiSelectOptions extends SelectOptions {
+	selected?: string[];
+}
+
+type Highlighter = (input: string) => string;
+
+type SuggestionSource = (input: string) => string | null | undefined;
+
+/**
+ * A function that is called before the input is submitted, which may
+ * return `false` to keep editing it, or a string to submit instead
+ */
+export type SubmitHandler = (input: string) => string | boolean | void;
+
+export interface CancelEvent {
+	input: string;
+	reason: string;
+}
+
+export interface HistoryNavigateEvent {
+	entry: string;
+	index: number;
+}
+
+export interface CompletionRequestEvent {
+	input: string;
+	cursor: number;
+}
+
+export interface CompletionApplyEvent {
+	candidate: CompletionCandidate;
+	input: string;
+}
+
+/**
+ * A function that checks the input when it is submitted, returning an error
+ * message if it is not valid
+ */
+export type InputValidator = (
+	input: string,
+) => string | null | undefined | void;
+
+/**
+ * A choice of `.readSelect()`, displayed with its label
+ */
+export interface SelectChoice {
+	label: string;
+	value: string;
 }
 
+type EditMode = "emacs" | "vi";
+
+type PasteNewlines = "insert" | "submit" | "confirm";
+
+type InterruptMode = "reset" | "reject";
+
+/**
+ * A function that is called with the discarded input when the user presses
+ * Ctrl-C
+ */
+export type InterruptHandler = (input: string) => void;
+
+type ViMode = "insert" | "normal";
+
+type LastAction = "kill" | "yank" | "insert" | "undo" | null;
+
+// The markers around the text pasted in bracketed paste mode
+const PASTE_START = "\x1b[200~";
+const PASTE_END = "\x1b[201~";
+
+// How long the beginning of a paste marker is kept, waiting for the rest of
+// it, before it is handled as typed keys (in milliseconds)
+const PASTE_MARKER_TIMEOUT = 50;
+
 interface TermSize {
 	cols: number;
 	rows: number;
 }
 
+/**
+ * The prompt as it is displayed, with the location of the terminal cursor
+ * relative to its beginning
+ */
+interface RenderedPrompt {
+	text: string;
+	row: number;
+	col: number;
+}
+
+const EMPTY_PROMPT: RenderedPrompt = { text: "", row: 0, col: 0 };
+
 interface ActivePrompt {
 	prompt: string;
 	continuationPrompt: string;
+	incompleteInputDetector: IncompleteInputDetector;
+	mask: string | null;
+	validator: InputValidator | null;
+	history: boolean;
+	completion: boolean;
 	resolve: (value: string) => void;
 	reject: (reason?: any) => void;
 }
@@ -35,9 +194,48 @@ interface ActiveCharPrompt {
 	reject: (reason?: any) => void;
 }
 
+interface ActiveConfirm {
+	prompt: string;
+	defaultValue: boolean;
+	resolve: (value: boolean) => void;
+	reject: (reason?: any) => void;
+}
+
+interface ActiveSelect {
+	prompt: string;
+	choices: SelectChoice[];
+	matches: SelectChoice[];
+	filter: string;
+	selected: number;
+	top: number;
+	pageSize: number;
+	checked: Set<string> | null;
+	resolve: (values: string[]) => void;
+	reject: (reason?: any) => void;
+}
+
+interface ActiveSearch {
+	query: string;
+	backward: boolean;
+	failed: boolean;
+	match: HistoryMatch | null;
+	input: string;
+	cursor: number;
+}
+
+interface CompletionMenu {
+	candidates: CompletionCandidate[];
+	selected: number;
+	input: string;
+	cursor: number;
+	start: number;
+	token: CompletionToken;
+}
+
 interface AutocompleteHandler {
-	fn: Function;
+	fn: AutocompleteCallback;
 	args: any[];
+	timeout?: number;
 }
 
 /**
@@ -48,20 +246,76 @@ interface AutocompleteHandler {
  * - Arrow navigation on the input
  * - Alt-arrow for word-boundary navigation
  * - Alt-backspace for word-boundary deletion
+ * - Kill ring (Ctrl-K, Ctrl-U, Ctrl-W, Alt-D) with yanking (Ctrl-Y, Alt-Y)
+ * - Undo (Ctrl-_, Ctrl-Z) and redo
+ * - Incremental history search (Ctrl-R, Ctrl-S)
+ * - Prefix-filtered history navigation (optional)
+ * - Vi editing mode (optional)
+ * - Syntax highlighting hooks
+ * - Inline suggestions from history or custom sources
  * - Multi-line input for incomplete commands
- * - Auto-complete hooks
+ * - Bracketed paste
+ * - Auto-complete hooks, with an optional selection menu
  */
 export default class LocalEchoController {
 	private term: Terminal | null;
 	private history: HistoryController;
+	private killRing: KillRing;
+	private undoStack: UndoStack;
+	private historyPrefixSearch: boolean;
+	private editMode: EditMode;
+	private viModeIndicator: { insert: string; normal: string };
+	private highlighter: Highlighter | null;
 	private maxAutocompleteEntries: number;
+	private autocompleteMenu: boolean;
+	private autosuggest: boolean;
+	private bracketedPaste: boolean;
+	private pasteNewlines: PasteNewlines;
+	private incompleteInputDetector: IncompleteInputDetector;
+	private interrupt: InterruptMode | InterruptHandler;
 	private _autocompleteHandlers: AutocompleteHandler[];
+	private _autocompleteAbort: AbortController | null;
+	private _completionMenu: CompletionMenu | null;
+	private _completionMenuText: string;
+	private _suggestionSources: SuggestionSource[];
+	private _suggestion: string;
+	private _pendingData: string;
+	private _pendingDataTimer: ReturnType<typeof setTimeout> | null;
+	private _paste: string | null;
+	private _pastedLines: string[];
 	private _active: boolean;
 	private _input: string;
 	private _cursor: number;
 	private _activePrompt: ActivePrompt | null;
 	private _activeCharPrompt: ActiveCharPrompt | null;
+	private _activeConfirm: ActiveConfirm | null;
+	private _activeSelect: ActiveSelect | null;
+	private _validationError: string;
+	private _pendingOutput: string[];
+	private _lastAction: LastAction;
+	private _yankRange: { start: number; end: number } | null;
+	private _search: ActiveSearch | null;
+	private _lastSearchQuery: string;
+	private _historyPrefix: { input: string; cursor: number } | null;
+	private _viMode: ViMode;
+	private _viKeys: string;
+	private _keyBindings: Map<string, KeyBinding>;
+	private _editingActions: Record<
+		EditingAction,
+		(lastAction: LastAction) => void
+	>;
 	private _termSize: TermSize;
+	private _rendered: RenderedPrompt;
+	private _frame: string | null;
+	private _emittedState: EditState;
+	private _submitHandlers: SubmitHandler[];
+	private _onInputChange: EventEmitter<string>;
+	private _onCursorMove: EventEmitter<number>;
+	private _onSubmit: EventEmitter<string>;
+	private _onCancel: EventEmitter<CancelEvent>;
+	private _onHistoryNavigate: EventEmitter<HistoryNavigateEvent>;
+	private _onCompletionRequest: EventEmitter<CompletionRequestEvent>;
+	private _onCompletionApply: EventEmitter<CompletionApplyEvent>;
 	private _disposables: { dispose: () => void }[];
 	private _handleTermData: (data: string) => void;
 	private _handleTermResize: (data: { rows: number; cols: number }) => void;
@@ -74,19 +328,78 @@ export default class LocalEchoController {
 		this._handleTermData = this.handleTermData.bind(this);
 		this._handleTermResize = this.handleTermResize.bind(this);
 
-		this.history = new HistoryController(options.historySize || 10);
+		this.history = new HistoryController(
+			options.historySize || 10,
+			options.historyStorage || null,
+		);
+		this.historyPrefixSearch = options.historyPrefixSearch || false;
+		this.killRing = new KillRing(options.killRingSize || 10);
+		this.undoStack = new UndoStack(options.undoSize || 100);
+		this.editMode = options.editMode || "emacs";
+		this.viModeIndicator = options.viModeIndicator || {
+			insert: "(ins) ",
+			normal: "(cmd) ",
+		};
+		this.highlighter = options.highlighter || null;
 		this.maxAutocompleteEntries = options.maxAutocompleteEntries || 100;
+		this.autocompleteMenu = options.autocompleteMenu || false;
+		this.autosuggest = options.autosuggest || false;
+		this.bracketedPaste = options.bracketedPaste ?? true;
+		this.pasteNewlines = options.pasteNewlines || "insert";
+		this.incompleteInputDetector =
+			options.incompleteInputDetector || isIncompleteShellInput;
+		this.interrupt = options.interrupt || "reset";
 
 		this._autocompleteHandlers = [];
+		this._autocompleteAbort = null;
+		this._completionMenu = null;
+		this._completionMenuText = "";
+		this._suggestionSources = [];
+		this._suggestion = "";
+		this._pendingData = "";
+		this._pendingDataTimer = null;
+		this._paste = null;
+		this._pastedLines = [];
 		this._active = false;
 		this._input = "";
 		this._cursor = 0;
 		this._activePrompt = null;
 		this._activeCharPrompt = null;
+		this._activeConfirm = null;
+		this._activeSelect = null;
+		this._validationError = "";
+		this._pendingOutput = [];
+		this._lastAction = null;
+		this._yankRange = null;
+		this._search = null;
+		this._lastSearchQuery = "";
+		this._historyPrefix = null;
+		this._viMode = "insert";
+		this._viKeys = "";
+		this._keyBindings = new Map();
+		this._editingActions = this.createEditingActions();
+		this.resetKeyBindings();
+		Object.entries(options.keyBindings || {}).forEach(
+			([sequence, binding]) =>
+				binding
+					? this.bindKey(sequence, binding)
+					: this.unbindKey(sequence),
+		);
 		this._termSize = {
 			cols: 0,
 			rows: 0,
 		};
+		this._rendered = EMPTY_PROMPT;
+		this._frame = null;
+		this._emittedState = { input: "", cursor: 0 };
+		this._submitHandlers = [];
+		this._onInputChange = new EventEmitter();
+		this._onCursorMove = new EventEmitter();
+		this._onSubmit = new EventEmitter();
+		this._onCancel = new EventEmitter();
+		this._onHistoryNavigate = new EventEmitter();
+		this._onCompletionRequest = new EventEmitter();
+		this._onCompletionApply = new EventEmitter();
 
 		this._disposables = [];
 
@@ -114,6 +427,8 @@ export default class LocalEchoController {
 	 *  Detach the controller from the terminal
 	 */
 	detach(): void {
+		if (this.bracketedPaste) this.write("\x1b[?2004l");
+		this.flushPendingData();
 		if (this.term && "off" in this.term) {
 			this.term.off("data", this._handleTermData);
 			this.term.off("resize", this._handleTermResize);
@@ -134,6 +449,7 @@ export default class LocalEchoController {
 			this._disposables.push(this.term.onData(this._handleTermData));
 			this._disposables.push(this.term.onResize(this._handleTermResize));
 		}
+		if (this.bracketedPaste) this.write("\x1b[?2004h");
 		this._termSize = {
 			cols: this.term ? this.term.cols : 0,
 			rows: this.term ? this.term.rows : 0,
@@ -142,42 +458,423 @@ export default class LocalEchoController {
 
 	/**
 	 * Register a handler that will be called to satisfy auto-completion
+	 *
+	 * The handler may return the candidates as an array, a promise or an
+	 * async iterable. To limit the time spent waiting for it, register it as
+	 * `{ fn, timeout }` instead.
 	 */
-	addAutocompleteHandler(fn: Function, ...args: any[]): void {
+	addAutocompleteHandler(
+		handler:
+			| AutocompleteCallback
+			| { fn: AutocompleteCallback; timeout?: number },
+		...args: any[]
+	): void {
+		const { fn, timeout } =
+			typeof handler === "function"
+				? { fn: handler, timeout: 0 }
+				: handler;
 		this._autocompleteHandlers.push({
 			fn,
 			args,
+			timeout,
 		});
 	}
 
 	/**
 	 * Remove a previously registered auto-complete handler
 	 */
-	removeAutocompleteHandler(fn: Function): void {
+	removeAutocompleteHandler(fn: AutocompleteCallback): void {
 		const idx = this._autocompleteHandlers.findIndex((e) => e.fn === fn);
 		if (idx === -1) return;
 
 		this._autocompleteHandlers.splice(idx, 1);
 	}
 
+	/**
+	 * Register a source of inline suggestions
+	 *
+	 * The source is called with the current input and it may return a
+	 * longer input that starts with it, which is displayed after the input
+	 * until it is accepted. The sources are consulted in the order they were
+	 * registered, before the history (if the `autosuggest` option is set).
+	 */
+	addSuggestionSource(fn: SuggestionSource): void {
+		this._suggestionSources.push(fn);
+		if (this._active) this.setInput(this._input);
+	}
+
+	/**
+	 * Remove a previously registered suggestion source
+	 */
+	removeSuggestionSource(fn: SuggestionSource): void {
+		const idx = this._suggestionSources.indexOf(fn);
+		if (idx === -1) return;
+
+		this._suggestionSources.splice(idx, 1);
+		if (this._active) this.setInput(this._input);
+	}
+
+	/**
+	 * Register a listener that is called with the new input, whenever it
+	 * changes
+	 */
+	onInputChange(listener: (input: string) => void): Disposable {
+		return this._onInputChange.on(listener);
+	}
+
+	/**
+	 * Register a listener that is called with the new cursor offset in the
+	 * input, whenever it moves
+	 */
+	onCursorMove(listener: (cursor: number) => void): Disposable {
+		return this._onCursorMove.on(listener);
+	}
+
+	/**
+	 * Register a handler that is called before the input is submitted
+	 *
+	 * The handler may return `false` to keep the user editing the input, or
+	 * a string to submit instead of it. The handlers are called in the order
+	 * they were registered, each one with the input returned by the previous.
+	 * They are not called for the secrets read with `.readPassword()`.
+	 */
+	onBeforeSubmit(handler: SubmitHandler): Disposable {
+		this._submitHandlers.push(handler);
+		return {
+			dispose: () => {
+				const idx = this._submitHandlers.indexOf(handler);
+				if (idx !== -1) this._submitHandlers.splice(idx, 1);
+			},
+		};
+	}
+
+	/**
+	 * Register a listener that is called with the submitted input, right
+	 * before the `.read()` promise is resolved
+	 */
+	onSubmit(listener: (input: string) => void): Disposable {
+		return this._onSubmit.on(listener);
+	}
+
+	/**
+	 * Register a listener that is called when the read is interrupted with
+	 * Ctrl-C (with the `"interrupt"` reason), ended with Ctrl-D (with the
+	 * `"eof"` reason) or aborted with `.abortRead()`
+	 */
+	onCancel(listener: (event: CancelEvent) => void): Disposable {
+		return this._onCancel.on(listener);
+	}
+
+	/**
+	 * Register a listener that is called when the user navigates to another
+	 * history entry. Its index is the number of entries when the user gets
+	 * past the most recent one.
+	 */
+	onHistoryNavigate(
+		listener: (event: HistoryNavigateEvent) => void,
+	): Disposable {
+		return this._onHistoryNavigate.on(listener);
+	}
+
+	/**
+	 * Register a listener that is called when the user requests the
+	 * completion of the input
+	 */
+	onCompletionRequest(
+		listener: (event: CompletionRequestEvent) => void,
+	): Disposable {
+		return this._onCompletionRequest.on(listener);
+	}
+
+	/**
+	 * Register a listener that is called when a completion candidate is
+	 * inserted in the input
+	 */
+	onCompletionApply(
+		listener: (event: CompletionApplyEvent) => void,
+	): Disposable {
+		return this._onCompletionApply.on(listener);
+	}
+
+	/**
+	 * Bind a key sequence to an editing action or to a custom handler
+	 *
+	 * The key sequence is the data the terminal sends for a key press, for
+	 * example `"\x01"` for Ctrl-A or `"\x1b[A"` for the up arrow.
+	 */
+	bindKey(sequence: string, binding: KeyBinding): void {
+		if (typeof binding === "string" && !(binding in this._editingActions)) {
+			throw new TypeError(`Unknown editing action: ${binding}`);
+		}
+		this._keyBindings.set(sequence, binding);
+	}
+
+	/**
+	 * Remove the binding of the given key sequence
+	 */
+	unbindKey(sequence: string): void {
+		this._keyBindings.delete(sequence);
+	}
+
+	/**
+	 * Returns the current key bindings
+	 */
+	getKeyBindings(): Record<string, KeyBinding> {
+		return Object.fromEntries(this._keyBindings);
+	}
+
+	/**
+	 * Restore the default key bindings, removing any custom ones
+	 */
+	resetKeyBindings(): void {
+		this._keyBindings = new Map(Object.entries(DEFAULT_KEYMAP));
+	}
+
+	/**
+	 * Set the function used to style the input as it is typed, or `null` to
+	 * disable highlighting
+	 *
+	 * The highlighter receives the raw input and returns it decorated with
+	 * ANSI escape sequences. It must not alter the visible text.
+	 */
+	setHighlighter(highlighter: Highlighter | null): void {
+		this.highlighter = highlighter;
+		if (this._active) this.setInput(this._input);
+	}
+
 	/**
 	 * Return a promise that will resolve when the user has completed
 	 * typing a single line
+	 *
+	 * The prompts may contain ANSI escape sequences (e.g. colors) and they
+	 * may span multiple lines. The options may be given in place of the
+	 * continuation prompt:
+	 *
+	 * - `initialValue` and `cursor` pre-fill the input and place the cursor
+	 * - `signal` aborts this read, rejecting it with the reason of the signal
+	 * - `timeout` rejects the read with a `TimeoutError` after as many
+	 *   milliseconds
+	 * - `history`, `completion` and `continuation` can be set to `false` to
+	 *   turn off these features for this read
+	 * - `incompleteInputDetector` replaces the one of the controller
+	 * - `mask` makes the read secret (see `.readPassword()`)
+	 * - `validator` checks the input (see `.readInput()`)
 	 */
-	read(prompt: string, continuationPrompt: string = "> "): Promise<string> {
+	read(prompt: string, options?: ReadOptions): Promise<string>;
+	read(
+		prompt: string,
+		continuationPrompt?: string,
+		options?: ReadOptions,
+	): Promise<string>;
+	read(
+		prompt: string,
+		continuationPrompt: string | ReadOptions = "> ",
+		options: ReadOptions = {},
+	): Promise<string> {
+		if (typeof continuationPrompt !== "string") {
+			options = continuationPrompt;
+			continuationPrompt = "> ";
+		}
+		const { signal } = options;
+		if (signal && signal.aborted) return Promise.reject(signal.reason);
+
 		return new Promise((resolve, reject) => {
-			if (this.term) this.term.write(prompt);
-			this._activePrompt = {
-				prompt,
-				continuationPrompt,
-				resolve,
-				reject,
+			const unwatch = this.watchRead(options, (reason, error) => {
+				if (this._activePrompt === activePrompt) {
+					this.cancelRead(reason, error, "", false);
+				}
+			});
+			const activePrompt: ActivePrompt = {
+				prompt: prompt.replace(/\r\n?/g, "\n"),
+				continuationPrompt: (continuationPrompt as string).replace(
+					/\r\n?/g,
+					"\n",
+				),
+				incompleteInputDetector:
+					options.continuation === false
+						? () => false
+						: options.incompleteInputDetector ||
+							this.incompleteInputDetector,
+				mask: options.mask ?? null,
+				validator: options.validator || null,
+				history: options.history ?? true,
+				completion: options.completion ?? true,
+				resolve: (value) => {
+					unwatch();
+					resolve(value);
+				},
+				reject: (reason) => {
+					unwatch();
+					reject(reason);
+				},
 			};
+			this._activePrompt = activePrompt;
 
+			const initialValue = options.initialValue || "";
 			this._input = "";
-			this._cursor = 0;
+			this._cursor = Math.max(
+				0,
+				Math.min(
+					options.cursor ?? initialValue.length,
+					initialValue.length,
+				),
+			);
 			this._active = true;
+			this._viMode = "insert";
+			this._viKeys = "";
+			this._search = null;
+			this._historyPrefix = null;
+			this._lastAction = null;
+			this._yankRange = null;
+			this.history.rewind();
+			this._completionMenu = null;
+			this._completionMenuText = "";
+			this._suggestion = "";
+			this._validationError = "";
+			this.undoStack.clear();
+			this.setInput(initialValue, false);
+
+			// Continue with the lines left from a paste
+			const lines = this._pastedLines;
+			this._pastedLines = [];
+			if (lines.length > 0) this.insertPastedLines(lines);
+		});
+	}
+
+	/**
+	 * Return a promise that will resolve with a secret line, such as a
+	 * password
+	 *
+	 * Each character typed is displayed as the `mask` string, which is
+	 * empty by default so that nothing is echoed. The input is not added to
+	 * the history, it cannot be completed or suggested, and it is forgotten
+	 * by the controller when the read ends.
+	 */
+	readPassword(
+		prompt: string,
+		options: PasswordOptions = {},
+	): Promise<string> {
+		return this.read(prompt, "", {
+			...options,
+			mask: options.mask ?? "",
+			history: false,
+			completion: false,
+			continuation: false,
+		});
+	}
+
+	/**
+	 * Return a promise that will resolve with a line that passes the given
+	 * validator
+	 *
+	 * When the user submits an invalid input, the error message returned by
+	 * the validator (or the error it threw) is displayed under the prompt
+	 * and the user keeps editing the input.
+	 */
+	readInput(
+		prompt: string,
+		validator: InputValidator,
+		options: ReadOptions = {},
+	): Promise<string> {
+		return this.read(prompt, "> ", { ...options, validator });
+	}
+
+	/**
+	 * Return a promise that will resolve with the answer to a yes or no
+	 * question
+	 *
+	 * The user answers with `y` or `n`, while enter picks the default. Like
+	 * the selection prompts, it is rejected if another read is active.
+	 */
+	readConfirm(
+		prompt: string,
+		defaultValue: boolean = false,
+	): Promise<boolean> {
+		return new Promise((resolve, reject) => {
+			if (this.isReading()) return reject(this.readingError());
+			this._activeConfirm = {
+				prompt: prompt.replace(/\r\n?/g, "\n"),
+				defaultValue,
+				resolve,
+				reject,
+			};
+			this.startChoicePrompt();
+		});
+	}
+
+	/**
+	 * Return a promise that will resolve with the value of the choice the
+	 * user selects from a list
+	 *
+	 * The arrow keys move through the choices and enter selects one, while
+	 * typing filters them by their label.
+	 */
+	readSelect(
+		prompt: string,
+		choices: (string | SelectChoice)[],
+		options: SelectOptions = {},
+	): Promise<string> {
+		return new Promise((resolve, reject) => {
+			this.startSelect(prompt, choices, null, options, reject, (values) =>
+				resolve(values[0]),
+			);
+		});
+	}
+
+	/**
+	 * Return a promise that will resolve with the values of the choices the
+	 * user checks in a list
+	 *
+	 * Like `.readSelect()`, but space checks or unchecks a choice and enter
+	 * accepts the checked ones, in the order of the list.
+	 */
+	readMultiSelect(
+		prompt: string,
+		choices: (string | SelectChoice)[],
+		options: MultiSelectOptions = {},
+	): Promise<string[]> {
+		return new Promise((resolve, reject) => {
+			this.startSelect(
+				prompt,
+				choices,
+				new Set(options.selected || []),
+				options,
+				reject,
+				resolve,
+			);
+		});
+	}
+
+	/**
+	 * Revert the last change the user made to the input
+	 *
+	 * Returns `false` if there is nothing to undo.
+	 */
+	undo(): boolean {
+		if (!this._active) return false;
+		const state = this.undoStack.undo({
+			input: this._input,
+			cursor: this._cursor,
 		});
+		if (!state) return false;
+		this.restoreEditState(state);
+		return true;
+	}
+
+	/**
+	 * Re-apply the last change reverted by `.undo()`
+	 *
+	 * Returns `false` if there is nothing to redo.
+	 */
+	redo(): boolean {
+		if (!this._active) return false;
+		const state = this.undoStack.redo({
+			input: this._input,
+			cursor: this._cursor,
+		});
+		if (!state) return false;
+		this.restoreEditState(state);
+		return true;
 	}
 
 	/**
@@ -185,35 +882,107 @@ export default class LocalEchoController {
 	 * character.
 	 *
 	 * This can be active in addition to `.read()` and will be resolved in
-	 * priority before it.
+	 * priority before it. Like `.read()`, it accepts a `signal` and a
+	 * `timeout` option.
 	 */
-	readChar(prompt: string): Promise<string> {
+	readChar(prompt: string, options: ReadCharOptions = {}): Promise<string> {
+		const { signal } = options;
+		if (signal && signal.aborted) return Promise.reject(signal.reason);
+
 		return new Promise((resolve, reject) => {
-			if (this.term) this.term.write(prompt);
-			this._activeCharPrompt = {
+			const unwatch = this.watchRead(options, (reason, error) => {
+				if (this._activeCharPrompt !== activeCharPrompt) return;
+				this._activeCharPrompt = null;
+				this.leavePrompt();
+				activeCharPrompt.reject(error);
+			});
+			const activeCharPrompt: ActiveCharPrompt = {
 				prompt,
-				resolve,
-				reject,
+				resolve: (value) => {
+					unwatch();
+					resolve(value);
+				},
+				reject: (reason) => {
+					unwatch();
+					reject(reason);
+				},
 			};
+			this.write(prompt);
+			this._activeCharPrompt = activeCharPrompt;
 		});
 	}
 
+	/**
+	 * Call the given function when the signal of a read is aborted, or when
+	 * its timeout expires, returning a function that stops watching them
+	 */
+	private watchRead(
+		options: ReadCharOptions,
+		cancel: (reason: string, error: unknown) => void,
+	): () => void {
+		const { signal, timeout } = options;
+		const handleAbort = () => cancel("abort", signal!.reason);
+		if (signal) signal.addEventListener("abort", handleAbort);
+		const timer = timeout
+			? setTimeout(
+					() => cancel("timeout", new TimeoutError(timeout)),
+					timeout,
+				)
+			: null;
+
+		return () => {
+			if (signal) signal.removeEventListener("abort", handleAbort);
+			if (timer) clearTimeout(timer);
+		};
+	}
+
 	/**
 	 * Abort a pending read operation
 	 */
 	abortRead(reason: string = "aborted"): void {
-		if (this._activePrompt != null || this._activeCharPrompt != null) {
-			if (this.term) this.term.write("\r\n");
+		this.cancelRead(reason, reason);
+	}
+
+	/**
+	 * Reject the pending read operations with the given error, leaving the
+	 * prompt displayed with the given marker after it
+	 *
+	 * Unless `withChar` is `false`, the pending `.readChar()` is rejected as
+	 * well.
+	 */
+	private cancelRead(
+		reason: string,
+		error: unknown,
+		marker = "",
+		withChar = true,
+	): void {
+		const secret = this.isSecret();
+		const choice = this._activeConfirm || this._activeSelect;
+		const charPrompt = withChar ? this._activeCharPrompt : null;
+		if (this._completionMenu) this.closeCompletionMenu(false);
+		this.hideSuggestion();
+		if (choice) this.renderChoicePrompt("");
+		if (this._activePrompt != null || charPrompt != null || choice) {
+			this.leavePrompt(marker);
+			this._onCancel.fire({ input: secret ? "" : this._input, reason });
+		}
+		if (choice) {
+			choice.reject(error);
+			this._activeConfirm = null;
+			this._activeSelect = null;
 		}
 		if (this._activePrompt != null) {
-			this._activePrompt.reject(reason);
+			this._activePrompt.reject(error);
 			this._activePrompt = null;
 		}
-		if (this._activeCharPrompt != null) {
-			this._activeCharPrompt.reject(reason);
+		if (charPrompt != null) {
+			charPrompt.reject(error);
 			this._activeCharPrompt = null;
 		}
+		this.cancelAutocomplete();
+		this._pastedLines = [];
 		this._active = false;
+		if (secret) this.forgetInput();
 	}
 
 	/**
@@ -228,7 +997,23 @@ export default class LocalEchoController {
 	 */
 	print(message: string): void {
 		const normInput = message.replace(/[\r\n]+/g, "\n");
-		if (this.term) this.term.write(normInput.replace(/\n/g, "\r\n"));
+		this.write(normInput.replace(/\n/g, "\r\n"));
+	}
+
+	/**
+	 * Prints a message above the active prompt, which is redrawn after it
+	 * with the cursor in place
+	 *
+	 * The message is printed right after the current task, together with
+	 * the other messages printed meanwhile, so that the prompt is redrawn
+	 * once for a burst of messages. A new-line is added after each message
+	 * that does not end with one.
+	 */
+	printAbove(message: string): void {
+		this._pendingOutput.push(message);
+		if (this._pendingOutput.length === 1) {
+			setTimeout(() => this.flushOutput(), 0);
+		}
 	}
 
 	/**
@@ -239,8 +1024,10 @@ export default class LocalEchoController {
 
 		// Compute item sizes and matrix row/cols
 		const itemWidth =
-			items.reduce((width, item) => Math.max(width, item.length), 0) +
-			padding;
+			items.reduce(
+				(width, item) => Math.max(width, stringWidth(item)),
+				0,
+			) + padding;
 		const wideCols = Math.floor(this._termSize.cols / itemWidth);
 		const wideRows = Math.ceil(items.length / wideCols);
 
@@ -253,7 +1040,7 @@ export default class LocalEchoController {
 			for (let col = 0; col < wideCols; ++col) {
 				if (i < items.length) {
 					let item = items[i++];
-					item += " ".repeat(itemWidth - item.length);
+					item += " ".repeat(itemWidth - stringWidth(item));
 					rowStr += item;
 				}
 			}
@@ -269,7 +1056,10 @@ export default class LocalEchoController {
 	 * Apply prompts to the given input
 	 */
 	private applyPrompts(input: string): string {
-		const prompt = (this._activePrompt || {}).prompt || "";
+		const prompt = this._search
+			? this.getSearchPrompt()
+			: this.getModeIndicator() +
+				((this._activePrompt || {}).prompt || "");
 		const continuationPrompt =
 			(this._activePrompt || {}).continuationPrompt || "";
 
@@ -277,96 +1067,289 @@ export default class LocalEchoController {
 	}
 
 	/**
-	 * Advances the `offset` as required in order to accompany the prompt
-	 * additions to the input.
-	 */
-	private applyPromptOffset(input: string, offset: number): number {
-		const newInput = this.applyPrompts(input.substr(0, offset));
-		return newInput.length;
-	}
-
-	/**
-	 * Clears the current prompt
+	 * Returns the text that displays the given input, including the prompts,
+	 * the suggestion and the completion menu
 	 *
-	 * This function will erase all the lines that display the current prompt
-	 * and move the cursor in the beginning of the first line of the prompt.
+	 * Unlike `.print()`, consecutive new-lines are kept as they are, so that
+	 * multi-line prompts are displayed as they are measured.
 	 */
-	private clearInput(): void {
-		const currentPrompt = this.applyPrompts(this._input);
-
-		// Get the overall number of lines to clear
-		const allRows = countLines(currentPrompt, this._termSize.cols);
-
-		// Get the line we are currently in
-		const promptCursor = this.applyPromptOffset(this._input, this._cursor);
-		const { col, row } = offsetToColRow(
-			currentPrompt,
-			promptCursor,
-			this._termSize.cols,
-		);
-
-		// First move on the last line
-		const moveRows = allRows - row - 1;
-		for (let i = 0; i < moveRows; ++i) {
-			if (this.term) this.term.write("\x1B[E");
+	private getPromptText(input: string): string {
+		if (this.isSecret()) return this.applyPrompts(this.maskInput(input));
+
+		let styled = this.highlightInput(input);
+		const search = this._search;
+		if (search && !search.failed && search.match) {
+			const { offset } = search.match;
+			styled = styleRange(
+				styled,
+				offset,
+				offset + search.query.length,
+				"\x1b[7m",
+				"\x1b[27m",
+			);
 		}
 
-		// Clear current input line(s)
-		if (this.term) {
-			this.term.write("\r\x1B[K");
-			for (let i = 1; i < allRows; ++i) this.term.write("\x1B[F\x1B[K");
-		}
+		const suggestion = this._suggestion
+			.split("\n")
+			.map((line) => (line ? `\x1b[2m${line}\x1b[22m` : line))
+			.join("\n");
+		const error = this._validationError
+			? `\n\x1b[31m${this._validationError}\x1b[39m`
+			: "";
+		return (
+			this.applyPrompts(styled + suggestion) +
+			this._completionMenuText +
+			error
+		);
 	}
 
 	/**
-	 * Replace input with the new input given
+	 * Style the input using the highlighter, if there is one
 	 *
-	 * This function clears all the lines that the current input occupies and
-	 * then replaces them with the new input.
+	 * If the highlighter fails or alters the visible text, the raw input is
+	 * used instead, since the cursor calculations rely on it.
 	 */
-	setInput(newInput: string, clearInput: boolean = true): void {
-		// Clear current input
-		if (clearInput) this.clearInput();
-
-		// Write the new input lines, including the current prompt
-		const newPrompt = this.applyPrompts(newInput);
-		this.print(newPrompt);
-
-		// Trim cursor overflow
-		if (this._cursor > newInput.length) {
-			this._cursor = newInput.length;
+	private highlightInput(input: string): string {
+		if (!this.highlighter || input === "") return input;
+		try {
+			const styled = this.highlighter(input);
+			if (stripAnsi(styled) !== input) return input;
+			return styled === input ? input : styled + "\x1b[0m";
+		} catch (e) {
+			console.error("Highlighter error:", e);
+			return input;
 		}
+	}
 
-		// Move the cursor to the appropriate row/col
-		const newCursor = this.applyPromptOffset(newInput, this._cursor);
-		const newLines = countLines(newPrompt, this._termSize.cols);
-		const { col, row } = offsetToColRow(
-			newPrompt,
-			newCursor,
-			this._termSize.cols,
+	/**
+	 * Advances the `offset` as required in order to accompany the prompt
+	 * additions to the input.
+	 */
+	private applyPromptOffset(input: string, offset: number): number {
+		const newInput = this.applyPrompts(
+			this.maskInput(input.substr(0, offset)),
 		);
-		const moveUpRows = newLines - row - 1;
+		return newInput.length;
+	}
 
-		if (this.term) {
-			this.term.write("\r");
-			for (let i = 0; i < moveUpRows; ++i) this.term.write("\x1B[F");
-			for (let i = 0; i < col; ++i) this.term.write("\x1B[C");
-		}
+	/**
+	 * Returns true unless the history is turned off for the active read
+	 */
+	private usesHistory(): boolean {
+		return this._activePrompt == null || this._activePrompt.history;
+	}
 
-		// Replace input
-		this._input = newInput;
+	/**
+	 * Returns true unless the completion is turned off for the active read
+	 */
+	private usesCompletion(): boolean {
+		return this._activePrompt == null || this._activePrompt.completion;
 	}
 
 	/**
-	 * This function completes the current input, calls the given callback
-	 * and then re-displays the prompt.
+	 * Returns true if the active read is for a secret input
 	 */
-	private printAndRestartPrompt(callback: () => Promise<void> | void): void {
-		const cursor = this._cursor;
+	private isSecret(): boolean {
+		return this._activePrompt != null && this._activePrompt.mask != null;
+	}
 
-		// Complete input
+	/**
+	 * Replace each character of a secret input with the mask, as it is
+	 * displayed
+	 */
+	private maskInput(input: string): string {
+		if (!this.isSecret()) return input;
+		return this._activePrompt!.mask!.repeat(graphemes(input).length);
+	}
+
+	/**
+	 * Discard the input and the changes made to it, so that the controller
+	 * keeps no trace of a secret
+	 */
+	private forgetInput(): void {
+		this._input = "";
+		this._cursor = 0;
+		this._yankRange = null;
+		this.undoStack.clear();
+		this.emitEditState();
+	}
+
+	/**
+	 * Returns the location of the cursor, relative to the beginning of the
+	 * prompt
+	 */
+	private getCursorLocation(): { row: number; col: number } {
+		return offsetToColRow(
+			this.applyPrompts(this.maskInput(this._input)),
+			this.applyPromptOffset(this._input, this._cursor),
+			this._termSize.cols,
+		);
+	}
+
+	/**
+	 * Clears the current prompt
+	 *
+	 * This function will erase all the lines that display the current prompt,
+	 * including the suggestion and the completion menu, and move the cursor
+	 * in the beginning of the first line of the prompt.
+	 */
+	private clearInput(): void {
+		this.write(
+			this.cursorMoves(this._rendered, { row: 0, col: 0 }) + "\x1B[J",
+		);
+		this._rendered = EMPTY_PROMPT;
+	}
+
+	/**
+	 * Replace input with the new input given
+	 *
+	 * Only the part of the display after the first change is redrawn. If
+	 * `clearInput` is `false`, the current input is assumed to be erased
+	 * already, so the new one is written in full.
+	 */
+	setInput(newInput: string, clearInput: boolean = true): void {
+		if (!clearInput) this._rendered = EMPTY_PROMPT;
+		this.renderInput(newInput, this.getSuggestion(newInput));
+	}
+
+	/**
+	 * Display the given input and suggestion, and move the cursor in place
+	 */
+	private renderInput(newInput: string, suggestion: string): void {
+		this._suggestion = suggestion;
+		this._completionMenuText = this.renderCompletionMenu(
+			newInput + suggestion,
+		);
+		if (newInput !== this._input) this._validationError = "";
+		this._input = newInput;
+
+		// Trim cursor overflow
+		if (this._cursor > newInput.length) {
+			this._cursor = newInput.length;
+		}
+
+		this.renderFrame(
+			this.getPromptText(newInput),
+			this.getCursorLocation(),
+		);
+		this.emitEditState();
+	}
+
+	/**
+	 * Update the display from the previously rendered prompt text to the new
+	 * one, in a single write
+	 *
+	 * The cursor moves to the first character that changed, everything after
+	 * it is erased and the rest of the new text is written. Then the cursor
+	 * moves to the given location.
+	 */
+	private renderFrame(
+		text: string,
+		cursor: { row: number; col: number },
+	): void {
+		const { cols } = this._termSize;
+		const previous = this._rendered;
+
+		// The cursor cannot be placed past the end of a full line, so the
+		// redraw starts before its last character
+		let start = commonPrefixLength(previous.text, text);
+		let from = offsetToColRow(text, start, cols);
+		while (start > 0 && from.col >= cols) {
+			start = commonPrefixLength(previous.text, text, start - 1);
+			from = offsetToColRow(text, start, cols);
+		}
+
+		let frame = "";
+		if (start < previous.text.length || start < text.length) {
+			frame += this.cursorMoves(previous, from);
+			if (start < previous.text.length) frame += "\x1B[J";
+
+			// Restore the styles that were in effect at that point
+			const styles = activeStyles(text.substr(0, start));
+			if (styles || activeStyles(previous.text)) {
+				frame += "\x1B[0m" + styles;
+			}
+			frame += text.substr(start).replace(/\n/g, "\r\n");
+			frame += this.cursorMoves(
+				offsetToColRow(text, text.length, cols),
+				cursor,
+			);
+		} else {
+			frame += this.cursorMoves(previous, cursor);
+		}
+
+		this.write(frame);
+		this._rendered = { text, ...cursor };
+	}
+
+	/**
+	 * Returns the escape sequences that move the terminal cursor between the
+	 * given locations (relative to the beginning of the prompt)
+	 *
+	 * The terminal keeps the cursor on the last column when a line is full,
+	 * so the columns are set from the beginning of the line.
+	 */
+	private cursorMoves(
+		from: { row: number; col: number },
+		to: { row: number; col: number },
+	): string {
+		let moves = "";
+		if (to.row < from.row) moves += `\x1B[${from.row - to.row}A`;
+		if (to.row > from.row) moves += `\x1B[${to.row - from.row}B`;
+		if (to.col !== from.col) {
+			const col = Math.min(to.col, this._termSize.cols - 1);
+			moves += col > 0 ? `\r\x1B[${col}C` : "\r";
+		}
+		return moves;
+	}
+
+	/**
+	 * Write the given data to the terminal, or to the current frame while
+	 * batching
+	 */
+	private write(data: string): void {
+		if (this._frame !== null) this._frame += data;
+		else if (this.term && data !== "") this.term.write(data);
+	}
+
+	/**
+	 * Call the given function, collecting everything it writes to the
+	 * terminal in a single write
+	 */
+	private batch(fn: () => void): void {
+		if (this._frame !== null) return fn();
+
+		this._frame = "";
+		try {
+			fn();
+		} finally {
+			const frame = this._frame;
+			this._frame = null;
+			this.write(frame);
+		}
+	}
+
+	/**
+	 * Move to a new line after the prompt, leaving it displayed as it is
+	 */
+	private leavePrompt(marker: string = ""): void {
+		this.write(marker + "\r\n");
+		this._rendered = EMPTY_PROMPT;
+	}
+
+	/**
+	 * This function completes the current input, calls the given callback
+	 * and then re-displays the prompt.
+	 */
+	private printAndRestartPrompt(
+		callback: () => Promise<void> | void,
+	): Promise<void> {
+		const cursor = this._cursor;
+
+		// Complete input
 		this.setCursor(this._input.length);
-		if (this.term) this.term.write("\r\n");
+		this.hideSuggestion();
+		this.leavePrompt();
 
 		// Prepare a function that will resume prompt
 		const resume = () => {
@@ -379,96 +1362,70 @@ export default class LocalEchoController {
 		const ret = callback();
 		if (ret == null) {
 			resume();
+			return Promise.resolve();
 		} else {
-			ret.then(resume);
+			return ret.then(resume);
 		}
 	}
 
 	/**
 	 * Set the new cursor position, as an offset on the input string
-	 *
-	 * This function:
-	 * - Calculates the previous and current
 	 */
 	private setCursor(newCursor: number): void {
 		if (newCursor < 0) newCursor = 0;
 		if (newCursor > this._input.length) newCursor = this._input.length;
 
-		// Apply prompt formatting to get the visual status of the display
-		const inputWithPrompt = this.applyPrompts(this._input);
-		const inputLines = countLines(inputWithPrompt, this._termSize.cols);
-
-		// Estimate previous cursor position
-		const prevPromptOffset = this.applyPromptOffset(
-			this._input,
-			this._cursor,
-		);
-		const { col: prevCol, row: prevRow } = offsetToColRow(
-			inputWithPrompt,
-			prevPromptOffset,
-			this._termSize.cols,
-		);
-
-		// Estimate next cursor position
-		const newPromptOffset = this.applyPromptOffset(this._input, newCursor);
-		const { col: newCol, row: newRow } = offsetToColRow(
-			inputWithPrompt,
-			newPromptOffset,
-			this._termSize.cols,
-		);
-
-		// Adjust vertically
-		if (this.term) {
-			if (newRow > prevRow) {
-				for (let i = prevRow; i < newRow; ++i)
-					this.term.write("\x1B[B");
-			} else {
-				for (let i = newRow; i < prevRow; ++i)
-					this.term.write("\x1B[A");
-			}
-
-			// Adjust horizontally
-			if (newCol > prevCol) {
-				for (let i = prevCol; i < newCol; ++i)
-					this.term.write("\x1B[C");
-			} else {
-				for (let i = newCol; i < prevCol; ++i)
-					this.term.write("\x1B[D");
-			}
-		}
-
-		// Set new offset
 		this._cursor = newCursor;
+		const location = this.getCursorLocation();
+		this.write(this.cursorMoves(this._rendered, location));
+		this._rendered = { ...this._rendered, ...location };
+		this.emitEditState();
 	}
 
 	/**
-	 * Move cursor at given direction
+	 * Notify the listeners about the changes of the input and the cursor
+	 * since the last notification
+	 *
+	 * A secret input is reported as empty, so that it is never notified.
+	 */
+	private emitEditState(): void {
+		const { input, cursor } = this._emittedState;
+		const state = this.isSecret()
+			? { input: "", cursor: 0 }
+			: { input: this._input, cursor: this._cursor };
+		this._emittedState = state;
+		if (input !== state.input) this._onInputChange.fire(state.input);
+		if (cursor !== state.cursor) this._onCursorMove.fire(state.cursor);
+	}
+
+	/**
+	 * Move cursor at given direction, by whole grapheme clusters
 	 */
 	private handleCursorMove(dir: number): void {
-		if (dir > 0) {
-			const num = Math.min(dir, this._input.length - this._cursor);
-			this.setCursor(this._cursor + num);
-		} else if (dir < 0) {
-			const num = Math.max(dir, -this._cursor);
-			this.setCursor(this._cursor + num);
+		let cursor = this._cursor;
+		for (let i = 0; i < Math.abs(dir); ++i) {
+			cursor =
+				dir > 0
+					? nextGraphemeOffset(this._input, cursor)
+					: previousGraphemeOffset(this._input, cursor);
 		}
+		this.setCursor(cursor);
 	}
 
 	/**
-	 * Erase a character at cursor location
+	 * Erase a character (grapheme cluster) at cursor location
 	 */
 	private handleCursorErase(backspace: boolean): void {
 		const { _cursor, _input } = this;
 		if (backspace) {
 			if (_cursor <= 0) return;
-			const newInput =
-				_input.substr(0, _cursor - 1) + _input.substr(_cursor);
-			this.clearInput();
-			this._cursor -= 1;
-			this.setInput(newInput, false);
+			const start = previousGraphemeOffset(_input, _cursor);
+			const newInput = _input.substr(0, start) + _input.substr(_cursor);
+			this._cursor = start;
+			this.setInput(newInput);
 		} else {
-			const newInput =
-				_input.substr(0, _cursor) + _input.substr(_cursor + 1);
+			const end = nextGraphemeOffset(_input, _cursor);
+			const newInput = _input.substr(0, _cursor) + _input.substr(end);
 			this.setInput(newInput);
 		}
 	}
@@ -485,246 +1442,1710 @@ export default class LocalEchoController {
 	}
 
 	/**
-	 * Fake enter a line -- still add to history, but don't execute
+	 * Kill the text between the given offsets and store it in the kill ring
+	 *
+	 * When `merge` is set (consecutive kills), the text is merged into the
+	 * last kill ring entry, prepending it when killing backwards.
 	 */
-	fakeExecute(input: string): void {
-		const oldInput = this._input;
-		const oldCursor = this._cursor;
-		if (this.history) {
-			this.history.push(input);
+	private handleKill(start: number, end: number, merge: boolean): void {
+		const { _cursor, _input } = this;
+		this._lastAction = "kill";
+		if (start >= end) return;
+
+		// Secrets do not leave the input
+		if (!this.isSecret()) {
+			this.killRing.kill(
+				_input.substring(start, end),
+				merge,
+				end <= _cursor,
+			);
 		}
-		// this._input = input;
-		this.setInput(input);
-		this.term.write("\r\n");
-		this.setInput(oldInput);
-		this.setCursor(oldCursor);
+
+		const newInput = _input.substr(0, start) + _input.substr(end);
+		this._cursor = start;
+		this.setInput(newInput);
 	}
 
 	/**
-	 * Handle input completion
+	 * Insert the most recently killed text at cursor location
 	 */
-	private handleReadComplete(): void {
-		if (this.history) {
-			this.history.push(this._input);
+	private handleYank(): void {
+		const text = this.killRing.yank();
+		if (text == null) return;
+
+		const start = this._cursor;
+		this.handleCursorInsert(text);
+		this._yankRange = { start, end: start + text.length };
+		this._lastAction = "yank";
+	}
+
+	/**
+	 * Replace the text that was just yanked with the previous kill ring entry
+	 */
+	private handleYankPop(): void {
+		if (this._yankRange == null) return;
+		const text = this.killRing.rotate();
+		if (text == null) return;
+
+		const { start, end } = this._yankRange;
+		const newInput =
+			this._input.substr(0, start) + text + this._input.substr(end);
+		this._cursor = start + text.length;
+		this.setInput(newInput);
+		this._yankRange = { start, end: start + text.length };
+		this._lastAction = "yank";
+	}
+
+	/**
+	 * Navigate in history, visiting only the entries that start with the
+	 * input before the cursor
+	 *
+	 * The input the navigation started with is restored when walking past
+	 * the most recent matching entry.
+	 */
+	private handleHistoryPrefixMove(backward: boolean): void {
+		// A new prefix navigation starts from the most recent entry
+		if (this._historyPrefix == null) {
+			this._historyPrefix = { input: this._input, cursor: this._cursor };
+			this.history.rewind();
 		}
-		if (this._activePrompt) {
-			this._activePrompt.resolve(this._input);
-			this._activePrompt = null;
+		const { input, cursor } = this._historyPrefix;
+		const prefix = input.substr(0, cursor);
+		const value = backward
+			? this.history.getPreviousMatching(prefix)
+			: this.history.getNextMatching(prefix);
+
+		if (value != null) {
+			this.setInput(value);
+			this.setCursor(value.length);
+		} else if (!backward) {
+			this._cursor = cursor;
+			this.setInput(input);
+			this._historyPrefix = null;
 		}
-		if (this.term) this.term.write("\r\n");
-		this._active = false;
 	}
 
 	/**
-	 * Handle terminal resize
-	 *
-	 * This function clears the prompt using the previous configuration,
-	 * updates the cached terminal size information and then re-renders the
-	 * input. This leads (most of the times) into a better formatted input.
+	 * Returns the prompt to display while an incremental search is active
 	 */
-	private handleTermResize(data: { rows: number; cols: number }): void {
-		const { rows, cols } = data;
-		this.clearInput();
-		this._termSize = { cols, rows };
-		this.setInput(this._input, false);
+	private getSearchPrompt(): string {
+		if (!this._search) return "";
+		const { query, backward, failed } = this._search;
+		const mode = backward ? "reverse-i-search" : "i-search";
+		return `(${failed ? "failed " : ""}${mode})\`${query}': `;
 	}
 
 	/**
-	 * Handle terminal input
+	 * Enter incremental history search mode
 	 */
-	private handleTermData(data: string): void {
-		if (!this._active) return;
+	private handleSearchStart(backward: boolean): void {
+		if (!this.usesHistory()) return;
+		this._search = {
+			query: "",
+			backward,
+			failed: false,
+			match: null,
+			input: this._input,
+			cursor: this._cursor,
+		};
+		this.setInput(this._input);
+	}
 
-		// If we have an active character prompt, satisfy it in priority
-		if (this._activeCharPrompt != null) {
-			this._activeCharPrompt.resolve(data);
-			this._activeCharPrompt = null;
-			if (this.term) this.term.write("\r\n");
-			return;
+	/**
+	 * Look up the search query in history, starting from the given location
+	 * and display the match (if any)
+	 */
+	private handleSearchUpdate(
+		query: string,
+		backward: boolean,
+		from: HistoryMatch | null,
+	): void {
+		if (!this._search) return;
+		let match: HistoryMatch | null = null;
+		if (query !== "") {
+			const fromIndex = from
+				? from.index
+				: backward
+					? this.history.length - 1
+					: 0;
+			match = this.history.search(
+				query,
+				fromIndex,
+				from?.offset,
+				backward,
+			);
 		}
 
-		// If this looks like a pasted input, expand it
-		if (data.length > 3 && data.charCodeAt(0) !== 0x1b) {
-			const normData = data.replace(/[\r\n]+/g, "\r");
-			Array.from(normData).forEach((c) => this.handleData(c));
+		this._search.query = query;
+		this._search.backward = backward;
+		this._search.failed = query !== "" && match == null;
+		if (match != null) {
+			this._search.match = match;
+			this._cursor = match.offset;
+			this.setInput(this.history.get(match.index) || "");
 		} else {
-			this.handleData(data);
+			this.setInput(this._input);
 		}
 	}
 
 	/**
-	 * Handle a single piece of information from the terminal.
+	 * Jump to the next match of the search query in the given direction,
+	 * or re-use the last query if there is no query yet.
 	 */
-	private handleData(data: string): void {
-		if (!this._active) return;
+	private handleSearchNext(backward: boolean): void {
+		if (!this._search) return;
+		const { query, match } = this._search;
+
+		if (query === "") {
+			this.handleSearchUpdate(this._lastSearchQuery, backward, null);
+		} else if (match == null) {
+			this.handleSearchUpdate(query, backward, null);
+		} else {
+			this.handleSearchUpdate(query, backward, {
+				index: match.index,
+				offset: match.offset + (backward ? -1 : 1),
+			});
+		}
+	}
+
+	/**
+	 * Leave incremental search mode, either keeping the matched entry as the
+	 * new input, or restoring the original input.
+	 */
+	private handleSearchEnd(accept: boolean): void {
+		if (!this._search) return;
+		const { input, cursor, query } = this._search;
+		if (query !== "") this._lastSearchQuery = query;
+
+		this._search = null;
+		if (!accept) this._cursor = cursor;
+		this.setInput(accept ? this._input : input);
+	}
+
+	/**
+	 * Handle terminal data while in incremental search mode
+	 *
+	 * Returns `false` if the data was not consumed by the search and it
+	 * should be processed as a regular key after the search is accepted.
+	 */
+	private handleSearchData(data: string): boolean {
+		if (!this._search) return false;
+		const { query, backward, match } = this._search;
+
+		switch (data) {
+			case "\x12": // CTRL+R
+				this.handleSearchNext(true);
+				return true;
+
+			case "\x13": // CTRL+S
+				this.handleSearchNext(false);
+				return true;
+
+			case "\x7F": // BACKSPACE
+				this.handleSearchUpdate(query.slice(0, -1), backward, null);
+				return true;
+
+			case "\x1b": // ESC
+			case "\x07": // CTRL+G
+				this.handleSearchEnd(false);
+				return true;
+
+			case "\x03": // CTRL+C
+				this.handleSearchEnd(false);
+				return false;
+		}
+
+		// Visible characters narrow down the search
 		const ord = data.charCodeAt(0);
-		let ofs: number | null;
-
-		// Handle ANSI escape sequences
-		if (ord == 0x1b) {
-			switch (data.substr(1)) {
-				case "[A": // Up arrow
-					if (this.history) {
-						const value = this.history.getPrevious();
-						if (value) {
-							this.setInput(value);
-							this.setCursor(value.length);
-						}
-					}
-					break;
+		if (ord >= 32 && ord !== 0x7f && ord !== 0x1b) {
+			this.handleSearchUpdate(query + data, backward, match);
+			return true;
+		}
 
-				case "[B": // Down arrow
-					if (this.history) {
-						let value = this.history.getNext();
-						if (!value) value = "";
-						this.setInput(value);
-						this.setCursor(value.length);
-					}
-					break;
+		// Any other key accepts the search and is handled normally
+		this.handleSearchEnd(true);
+		return false;
+	}
 
-				case "[D": // Left Arrow
-					this.handleCursorMove(-1);
-					break;
+	/**
+	 * Returns the edit mode indicator to display before the prompt
+	 */
+	private getModeIndicator(): string {
+		if (this.editMode !== "vi") return "";
+		return this._viMode === "insert"
+			? this.viModeIndicator.insert
+			: this.viModeIndicator.normal;
+	}
 
-				case "[C": // Right Arrow
-					this.handleCursorMove(1);
-					break;
+	/**
+	 * Switch between the vi insert and normal modes, updating the mode
+	 * indicator in the prompt
+	 */
+	private handleViModeChange(mode: ViMode): void {
+		if (mode === this._viMode) return;
+		this._viMode = mode;
+		this._viKeys = "";
+
+		// Like vi, leaving insert mode moves the cursor on the last character
+		if (mode === "normal") {
+			this._cursor = previousGraphemeOffset(this._input, this._cursor);
+		}
+		this.setInput(this._input);
+	}
 
-				case "[3~": // Delete
-					this.handleCursorErase(false);
-					break;
+	/**
+	 * Move the cursor to the given offset, keeping it on the last character
+	 * of the input, as vi normal mode does.
+	 */
+	private viSetCursor(offset: number): void {
+		const last = previousGraphemeOffset(this._input, this._input.length);
+		this.setCursor(Math.min(offset, last));
+	}
 
-				case "[F": // End
-					this.setCursor(this._input.length);
+	/**
+	 * Returns the offset the given vi motion leads to, or `null` if this is
+	 * not a known motion.
+	 */
+	private viMotion(motion: string, count: number): number | null {
+		const { _input } = this;
+		let target = this._cursor;
+
+		for (let i = 0; i < count; ++i) {
+			switch (motion) {
+				case "h":
+					target = previousGraphemeOffset(_input, target);
 					break;
-
-				case "[H": // Home
-					this.setCursor(0);
+				case "l":
+					target = nextGraphemeOffset(_input, target);
 					break;
-
-				case "b": // ALT + LEFT
-					ofs = closestLeftBoundary(this._input, this._cursor);
-					if (ofs != null) this.setCursor(ofs);
+				case "w":
+					target =
+						wordBoundaries(_input, true).find((x) => x > target) ??
+						_input.length;
 					break;
-
-				case "f": // ALT + RIGHT
-					ofs = closestRightBoundary(this._input, this._cursor);
-					if (ofs != null) this.setCursor(ofs);
+				case "b":
+					target = closestLeftBoundary(_input, target);
 					break;
-
-				case "\x7F": // CTRL + BACKSPACE
-					ofs = closestLeftBoundary(this._input, this._cursor);
-					if (ofs != null) {
-						this.setInput(
-							this._input.substr(0, ofs) +
-								this._input.substr(this._cursor),
-						);
-						this.setCursor(ofs);
-					}
+				case "e":
+					target =
+						(wordBoundaries(_input, false).find(
+							(x) => x - 1 > target,
+						) ?? _input.length) - 1;
 					break;
+				case "0":
+					return 0;
+				case "$":
+					return _input.length;
+				default:
+					return null;
 			}
+		}
 
-			// Handle special characters
-		} else if (ord < 32 || ord === 0x7f) {
-			switch (data) {
-				case "\r": // ENTER
-					if (isIncompleteInput(this._input)) {
-						this.handleCursorInsert("\n");
-					} else {
-						this.handleReadComplete();
-					}
-					break;
+		return Math.max(0, target);
+	}
 
-				case "\x7F": // BACKSPACE
-					this.handleCursorErase(true);
-					break;
+	/**
+	 * Apply a vi operator (`d`, `c` or `y`) on the text covered by the given
+	 * motion. A doubled operator (e.g. `dd`) applies on the whole input.
+	 */
+	private handleViOperator(
+		operator: string,
+		motion: string,
+		count: number,
+	): void {
+		const { _input, _cursor } = this;
+		let start = 0;
+		let end = _input.length;
+
+		if (operator === "c" && motion === "w") {
+			// Like vi, `cw` changes up to the end of the word
+			start = end = _cursor;
+			for (let i = 0; i < count; ++i) {
+				end = closestRightBoundary(_input, end);
+			}
+		} else if (motion !== operator) {
+			const target = this.viMotion(motion, count);
+			if (target == null) return;
+			start = Math.min(_cursor, target);
+			end = Math.max(_cursor, target);
+			if (motion === "e") end = Math.min(_input.length, end + 1);
+		}
 
-				case "\t": // TAB
-					if (this._autocompleteHandlers.length > 0) {
-						const inputFragment = this._input.substr(
-							0,
-							this._cursor,
-						);
-						const hasTailingSpace =
-							hasTailingWhitespace(inputFragment);
-						const candidates = collectAutocompleteCandidates(
-							this._autocompleteHandlers,
-							inputFragment,
-						);
+		if (operator === "y") {
+			if (!this.isSecret())
+				this.killRing.kill(_input.substring(start, end));
+			this.viSetCursor(start);
+			return;
+		}
 
-						// Sort candidates
-						candidates.sort();
-
-						// Depending on the number of candidates, we are handling them in
-						// a different way.
-						if (candidates.length === 0) {
-							// No candidates? Just add a space if there is none already
-							if (!hasTailingSpace) {
-								this.handleCursorInsert(" ");
-							}
-						} else if (candidates.length === 1) {
-							// Just a single candidate? Complete
-							const lastToken = getLastToken(inputFragment);
-							this.handleCursorInsert(
-								candidates[0].substr(lastToken.length) + " ",
-							);
-						} else if (
-							candidates.length <= this.maxAutocompleteEntries
-						) {
-							// search for a shared fragment
-							const sharedFragment = getSharedFragment(
-								inputFragment,
-								candidates,
-							);
+		this.handleKill(start, end, false);
+		if (operator === "c") {
+			this.handleViModeChange("insert");
+		} else {
+			this.viSetCursor(this._cursor);
+		}
+	}
 
-							// if there's a shared fragment between the candidates
-							// print complete the shared fragment
-							if (sharedFragment) {
-								const lastToken = getLastToken(inputFragment);
-								this.handleCursorInsert(
-									sharedFragment.substr(lastToken.length),
-								);
-							}
-
-							// If we are less than maximum auto-complete candidates, print
-							// them to the user and re-start prompt
-							this.printAndRestartPrompt(() => {
-								this.printWide(candidates);
-							});
-						} else {
-							// If we have more than maximum auto-complete candidates, print
-							// them only if the user acknowledges a warning
-							this.printAndRestartPrompt(() =>
-								this.readChar(
-									`Display all ${candidates.length} possibilities? (y or n)`,
-								).then((yn) => {
-									if (yn == "y" || yn == "Y") {
-										this.printWide(candidates);
-									}
-								}),
-							);
-						}
-					} else {
-						this.handleCursorInsert("    ");
-					}
-					break;
+	/**
+	 * Replace the characters under the cursor with the given one
+	 */
+	private handleViReplace(chr: string, count: number): void {
+		const { _input, _cursor } = this;
+		let end = _cursor;
+		for (let i = 0; i < count; ++i) {
+			if (end >= _input.length) return;
+			end = nextGraphemeOffset(_input, end);
+		}
 
-				case "\x03": // CTRL+C
-					this.setCursor(this._input.length);
-					if (this.term)
-						this.term.write(
-							"^C\r\n" +
-								((this._activePrompt || {}).prompt || ""),
-						);
-					this._input = "";
-					this._cursor = 0;
-					if (this.history) this.history.rewind();
-					break;
+		const replacement = chr.repeat(count);
+		this.setInput(
+			_input.substr(0, _cursor) + replacement + _input.substr(end),
+		);
+		this.setCursor(_cursor + replacement.length - chr.length);
+	}
+
+	/**
+	 * Insert the most recently killed or yanked text, after the cursor or
+	 * before it.
+	 */
+	private handleViPaste(after: boolean, count: number): void {
+		const text = this.killRing.yank();
+		if (text == null) return;
+
+		if (after) this.handleCursorMove(1);
+		this.handleCursorInsert(text.repeat(count));
+		this.handleCursorMove(-1);
+	}
+
+	/**
+	 * Replace the input with the previous (or next) history entry
+	 */
+	private handleViHistory(backward: boolean, count: number): void {
+		if (!this.history || !this.usesHistory()) return;
+		const position = this.history.position;
+		let value: string | undefined;
+		for (let i = 0; i < count; ++i) {
+			value = backward
+				? this.history.getPrevious()
+				: this.history.getNext();
+		}
+
+		if (value != null || !backward) {
+			this._cursor = 0;
+			this.setInput(value || "");
+		}
+		if (this.history.position !== position) {
+			this._onHistoryNavigate.fire({
+				entry: this._input,
+				index: this.history.position,
+			});
+		}
+	}
+
+	/**
+	 * Handle a vi normal mode command that is not an operator
+	 */
+	private handleViCommand(command: string, count: number): void {
+		const { _input } = this;
+
+		switch (command) {
+			case "i":
+				this.handleViModeChange("insert");
+				break;
+			case "a":
+				this.handleViModeChange("insert");
+				this.handleCursorMove(1);
+				break;
+			case "I":
+				this.handleViModeChange("insert");
+				this.setCursor(0);
+				break;
+			case "A":
+				this.handleViModeChange("insert");
+				this.setCursor(_input.length);
+				break;
+			case "x":
+				this.handleViOperator("d", "l", count);
+				break;
+			case "X":
+				this.handleViOperator("d", "h", count);
+				break;
+			case "D":
+				this.handleViOperator("d", "$", 1);
+				break;
+			case "C":
+				this.handleViOperator("c", "$", 1);
+				break;
+			case "p":
+				this.handleViPaste(true, count);
+				break;
+			case "P":
+				this.handleViPaste(false, count);
+				break;
+			case "u":
+				for (let i = 0; i < count; ++i) this.undo();
+				this.viSetCursor(this._cursor);
+				break;
+			case "k":
+				this.handleViHistory(true, count);
+				break;
+			case "j":
+				this.handleViHistory(false, count);
+				break;
+			default: {
+				const target = this.viMotion(command, count);
+				if (target != null) this.viSetCursor(target);
+				break;
 			}
+		}
+	}
 
-			// Handle visible characters
-		} else {
+	/**
+	 * Handle a key in vi normal mode
+	 *
+	 * The keys are collected until they form a complete command, in the form
+	 * of `[count][operator[count]]command`. Returns `false` if the key is not
+	 * handled by the normal mode, and should be processed as usual.
+	 */
+	private handleViNormalData(data: string): boolean {
+		const ord = data.charCodeAt(0);
+		if (data === "\x7F") {
+			data = "h";
+		} else if (data === "\x12") {
+			// Like vim, ctrl+r redoes the last undone change
+			this._viKeys = "";
+			this.redo();
+			this.viSetCursor(this._cursor);
+			return true;
+		} else if (ord < 32) {
+			this._viKeys = "";
+			return false;
+		}
+
+		this._viKeys += data;
+		const [, count, operator, opCount, command] =
+			/^([1-9]\d*)?(?:([cdy])([1-9]\d*)?)?(.*)$/s.exec(this._viKeys)!;
+
+		// Wait for the command to complete
+		if (command === "" || (command === "r" && !operator)) return true;
+		this._viKeys = "";
+
+		const repeat = (parseInt(count) || 1) * (parseInt(opCount) || 1);
+		if (operator) {
+			this.handleViOperator(operator, command, repeat);
+		} else if (command.length === 2 && command[0] === "r") {
+			this.handleViReplace(command[1], repeat);
+		} else {
+			this.handleViCommand(command, repeat);
+		}
+		return true;
+	}
+
+	/**
+	 * Fake enter a line -- still add to history, but don't execute
+	 */
+	fakeExecute(input: string): void {
+		const oldInput = this._input;
+		const oldCursor = this._cursor;
+		if (this.history) {
+			this.history.push(input);
+		}
+		// this._input = input;
+		this.setInput(input);
+		this.leavePrompt();
+		this.setInput(oldInput);
+		this.setCursor(oldCursor);
+	}
+
+	/**
+	 * Handle input completion
+	 */
+	private handleReadComplete(): void {
+		const secret = this.isSecret();
+		this.setCursor(this._input.length);
+		this.hideSuggestion();
+		if (this.history && this.usesHistory()) {
+			this.history.push(this._input);
+		}
+		this._onSubmit.fire(secret ? "" : this._input);
+		if (this._activePrompt) {
+			this._activePrompt.resolve(this._input);
+			this._activePrompt = null;
+		}
+		this.leavePrompt();
+		this._active = false;
+		if (secret) this.forgetInput();
+	}
+
+	/**
+	 * Handle terminal resize
+	 *
+	 * This function clears the prompt using the previous configuration,
+	 * updates the cached terminal size information and then re-renders the
+	 * input. This leads (most of the times) into a better formatted input.
+	 */
+	private handleTermResize(data: { rows: number; cols: number }): void {
+		const { rows, cols } = data;
+		this.batch(() => {
+			this.clearInput();
+			this._termSize = { cols, rows };
+			this.redrawPrompt();
+		});
+	}
+
+	/**
+	 * Handle terminal input
+	 *
+	 * The text between the bracketed paste markers is handled as a paste,
+	 * even when the markers are split across chunks of data. Everything that
+	 * is displayed in response is sent to the terminal in a single write.
+	 */
+	private handleTermData(data: string): void {
+		if (this._pendingDataTimer !== null) {
+			clearTimeout(this._pendingDataTimer);
+			this._pendingDataTimer = null;
+		}
+
+		this.batch(() => {
+			data = this._pendingData + data;
+			this._pendingData = "";
+
+			while (data !== "") {
+				if (this._paste === null) {
+					const start = data.indexOf(PASTE_START);
+					if (start === -1) {
+						// Keep the beginning of a paste marker for the next chunk,
+						// but not a lone escape key, and only for a short while
+						const partial = this.bracketedPaste
+							? partialMarkerLength(data, PASTE_START, 2)
+							: 0;
+						this.handleTermKeys(
+							data.substr(0, data.length - partial),
+						);
+						if (partial > 0) {
+							this._pendingData = data.substr(
+								data.length - partial,
+							);
+							this._pendingDataTimer = setTimeout(
+								() => this.flushPendingData(),
+								PASTE_MARKER_TIMEOUT,
+							);
+						}
+						return;
+					}
+					this.handleTermKeys(data.substr(0, start));
+					this._paste = "";
+					data = data.substr(start + PASTE_START.length);
+				} else {
+					const end = data.indexOf(PASTE_END);
+					if (end === -1) {
+						const partial = partialMarkerLength(data, PASTE_END);
+						this._paste += data.substr(0, data.length - partial);
+						this._pendingData = data.substr(data.length - partial);
+						return;
+					}
+					const text = this._paste + data.substr(0, end);
+					this._paste = null;
+					data = data.substr(end + PASTE_END.length);
+					this.handlePaste(text);
+				}
+			}
+		});
+	}
+
+	/**
+	 * Handle the beginning of a paste marker that was kept back as typed
+	 * keys, when the rest of the marker did not arrive
+	 */
+	private flushPendingData(): void {
+		if (this._pendingDataTimer !== null) {
+			clearTimeout(this._pendingDataTimer);
+			this._pendingDataTimer = null;
+		}
+		if (this._paste !== null || this._pendingData === "") return;
+		const data = this._pendingData;
+		this._pendingData = "";
+		this.batch(() => this.handleTermKeys(data));
+	}
+
+	/**
+	 * Handle the keys typed, outside of a bracketed paste
+	 */
+	private handleTermKeys(data: string): void {
+		if (!this._active || data === "") return;
+
+		// If we have an active character prompt, satisfy it in priority
+		if (this._activeCharPrompt != null) {
+			this._activeCharPrompt.resolve(data);
+			this._activeCharPrompt = null;
+			this.write("\r\n");
+			return;
+		}
+
+		if (this._activeConfirm) {
+			this.handleConfirmData(data);
+			return;
+		}
+		if (this._activeSelect) {
+			this.handleSelectData(data);
+			return;
+		}
+
+		// If this looks like a pasted input that was not bracketed, expand it
+		if (data.length > 3 && data.charCodeAt(0) !== 0x1b) {
+			const normData = data.replace(/[\r\n]+/g, "\r");
+			Array.from(normData).forEach((c) => this.handleData(c));
+		} else {
+			this.handleData(data);
+		}
+	}
+
+	/**
+	 * Handle the text pasted in bracketed paste mode
+	 *
+	 * The text is inserted at once, without running the key bindings. Its
+	 * new-lines are inserted, submitted or submitted after a confirmation,
+	 * depending on the `pasteNewlines` option.
+	 */
+	private handlePaste(text: string): void {
+		if (!this._active) return;
+		if (
+			this._activeCharPrompt != null ||
+			this._activeConfirm != null ||
+			this._activeSelect != null
+		) {
+			this.handleTermKeys(text);
+			return;
+		}
+
+		this.cancelAutocomplete();
+		if (this._completionMenu) this.closeCompletionMenu(false);
+
+		// Drop the control characters, except for new-lines
+		const normText = stripAnsi(text)
+			.replace(/\r\n?/g, "\n")
+			.replace(/\t/g, "    ")
+			.replace(/[\x00-\x09\x0b-\x1f\x7f]/g, "");
+		let lines = normText.split("\n");
+
+		if (this._search) {
+			const { query, backward, match } = this._search;
+			this.handleSearchUpdate(query + lines[0], backward, match);
+		} else if (this.isSecret()) {
+			// A secret is a single line, so the rest of the text is dropped
+			this.handleCursorInsert(lines[0]);
+			if (lines.length > 1) this.handleAcceptLine();
+		} else if (lines.length === 1 || this.pasteNewlines === "insert") {
+			const state = { input: this._input, cursor: this._cursor };
+			this.handleCursorInsert(normText);
+			this.undoStack.push(state);
+		} else if (this.pasteNewlines === "submit") {
+			this.insertPastedLines(lines);
+		} else {
+			const count = normText.replace(/\n$/, "").split("\n").length;
+			this.printAndRestartPrompt(() =>
+				this.readChar(`Run ${count} pasted lines? (y or n)`).then(
+					(yn) => {
+						if (yn != "y" && yn != "Y") lines = [];
+					},
+				),
+			).then(() => this.insertPastedLines(lines));
+		}
+	}
+
+	/**
+	 * Insert the given lines, submitting all of them but the last one
+	 *
+	 * The lines left when the read completes are inserted in the next one.
+	 */
+	private insertPastedLines(lines: string[]): void {
+		while (lines.length > 0) {
+			this.handleCursorInsert(lines.shift()!);
+			if (lines.length === 0) break;
+
+			this.handleAcceptLine();
+			if (!this._active) {
+				this._pastedLines = lines;
+				return;
+			}
+		}
+	}
+
+	/**
+	 * Returns the built-in editing actions, by name
+	 *
+	 * The kill and yank actions receive the action performed by the
+	 * previous key, in order to merge consecutive kills.
+	 */
+	private createEditingActions(): Record<
+		EditingAction,
+		(lastAction: LastAction) => void
+	> {
+		return {
+			"accept-line": () => this.handleAcceptLine(),
+			"backward-char": () => this.handleCursorMove(-1),
+			"forward-char": () =>
+				this.acceptSuggestion(this._suggestion.length) ||
+				this.handleCursorMove(1),
+			"backward-word": () =>
+				this.setCursor(closestLeftBoundary(this._input, this._cursor)),
+			"forward-word": () =>
+				this.acceptSuggestion(
+					closestRightBoundary(
+						this._input + this._suggestion,
+						this._cursor,
+					) - this._input.length,
+				) ||
+				this.setCursor(closestRightBoundary(this._input, this._cursor)),
+			"beginning-of-line": () => this.setCursor(0),
+			"end-of-line": () =>
+				this.acceptSuggestion(this._suggestion.length) ||
+				this.setCursor(this._input.length),
+			"previous-history": () => this.handleHistoryMove(true),
+			"next-history": () => this.handleHistoryMove(false),
+			"reverse-search-history": () => this.handleSearchStart(true),
+			"forward-search-history": () => this.handleSearchStart(false),
+			"backward-delete-char": () => this.handleCursorErase(true),
+			"delete-char": () => this.handleCursorErase(false),
+			"delete-char-or-eof": () =>
+				this._input === ""
+					? this.cancelRead("eof", new EOFError())
+					: this.handleCursorErase(false),
+			"backward-kill-word": (lastAction) =>
+				this.handleKill(
+					closestLeftBoundary(this._input, this._cursor),
+					this._cursor,
+					lastAction === "kill",
+				),
+			"kill-word": (lastAction) =>
+				this.handleKill(
+					this._cursor,
+					closestRightBoundary(this._input, this._cursor),
+					lastAction === "kill",
+				),
+			"kill-line": (lastAction) => {
+				let ofs = this._input.indexOf("\n", this._cursor);
+				if (ofs === this._cursor) ofs += 1;
+				else if (ofs === -1) ofs = this._input.length;
+				this.handleKill(this._cursor, ofs, lastAction === "kill");
+			},
+			"unix-line-discard": (lastAction) =>
+				this.handleKill(
+					this._input.lastIndexOf("\n", this._cursor - 1) + 1,
+					this._cursor,
+					lastAction === "kill",
+				),
+			"unix-word-rubout": (lastAction) =>
+				this.handleKill(
+					closestLeftWhitespaceBoundary(this._input, this._cursor),
+					this._cursor,
+					lastAction === "kill",
+				),
+			yank: () => this.handleYank(),
+			"yank-pop": (lastAction) => {
+				if (lastAction === "yank") this.handleYankPop();
+			},
+			undo: () => this.undo(),
+			redo: () => this.redo(),
+			complete: () => this.handleAutocomplete(),
+			interrupt: () => this.handleInterrupt(),
+			"clear-screen": () => this.handleClearScreen(),
+		};
+	}
+
+	/**
+	 * Returns the editing state given to the custom key binding handlers
+	 */
+	private createKeyBindingContext(lastAction: LastAction): KeyBindingContext {
+		const controller = this;
+		return {
+			get input() {
+				return controller._input;
+			},
+			get cursor() {
+				return controller._cursor;
+			},
+			setInput: (input: string, cursor: number = input.length) => {
+				this._cursor = Math.max(0, cursor);
+				this.setInput(input);
+			},
+			setCursor: (cursor: number) => this.setCursor(cursor),
+			insert: (text: string) => this.handleCursorInsert(text),
+			runAction: (action: EditingAction) =>
+				this._editingActions[action](lastAction),
+		};
+	}
+
+	/**
+	 * Navigate to the previous or next history entry
+	 */
+	private handleHistoryMove(backward: boolean): void {
+		if (!this.history || !this.usesHistory()) return;
+		const position = this.history.position;
+
+		if (
+			this.historyPrefixSearch &&
+			(this._historyPrefix || this._input !== "")
+		) {
+			this.handleHistoryPrefixMove(backward);
+		} else if (backward) {
+			const value = this.history.getPrevious();
+			if (value) {
+				this.setInput(value);
+				this.setCursor(value.length);
+			}
+		} else {
+			let value = this.history.getNext();
+			if (!value) value = "";
+			this.setInput(value);
+			this.setCursor(value.length);
+		}
+
+		if (this.history.position !== position) {
+			this._onHistoryNavigate.fire({
+				entry: this._input,
+				index: this.history.position,
+			});
+		}
+	}
+
+	/**
+	 * Replace the input and the cursor with the given undo (or redo) state
+	 */
+	private restoreEditState(state: EditState): void {
+		this._cursor = state.cursor;
+		this.setInput(state.input);
+		this._lastAction = "undo";
+	}
+
+	/**
+	 * Returns the suggested continuation of the given input, if any
+	 */
+	private getSuggestion(input: string): string {
+		if (
+			input === "" ||
+			this._search ||
+			this._completionMenu ||
+			!this.usesCompletion()
+		) {
+			return "";
+		}
+
+		const sources =
+			this.autosuggest && this.usesHistory()
+				? this._suggestionSources.concat((prefix) =>
+						this.history.getLatestMatching(prefix),
+					)
+				: this._suggestionSources;
+		for (const source of sources) {
+			try {
+				const suggestion = source(input);
+				if (
+					suggestion &&
+					suggestion.length > input.length &&
+					suggestion.startsWith(input)
+				) {
+					return suggestion.substr(input.length);
+				}
+			} catch (e) {
+				console.error("Suggestion error:", e);
+			}
+		}
+		return "";
+	}
+
+	/**
+	 * Insert the first `length` characters of the suggestion, if the cursor
+	 * is at the end of the input
+	 *
+	 * Returns `false` if there was nothing to accept.
+	 */
+	private acceptSuggestion(length: number): boolean {
+		if (
+			length <= 0 ||
+			this._suggestion === "" ||
+			this._cursor < this._input.length
+		) {
+			return false;
+		}
+		this.handleCursorInsert(this._suggestion.substr(0, length));
+		return true;
+	}
+
+	/**
+	 * Erase the suggestion and the validation error from the display, before
+	 * leaving the prompt
+	 */
+	private hideSuggestion(): void {
+		if (this._suggestion === "" && this._validationError === "") return;
+		this._validationError = "";
+		this.renderInput(this._input, "");
+	}
+
+	/**
+	 * Returns whether the input is incomplete, according to the detector of
+	 * the active prompt
+	 */
+	private isIncompleteInput(input: string): boolean {
+		if (!this._activePrompt) return false;
+		try {
+			return this._activePrompt.incompleteInputDetector(input);
+		} catch (e) {
+			console.error("Incomplete input detector error:", e);
+			return false;
+		}
+	}
+
+	/**
+	 * Complete the input, or continue in a new line if it is incomplete
+	 */
+	private handleAcceptLine(): void {
+		if (this.isIncompleteInput(this._input)) {
+			this.handleCursorInsert("\n");
+			return;
+		}
+		if (!this.validateInput()) return;
+
+		const input = this.isSecret()
+			? this._input
+			: this.applySubmitHandlers(this._input);
+		if (input === null) return;
+		if (input !== this._input) {
+			this._cursor = input.length;
+			this.setInput(input);
+		}
+		this.handleReadComplete();
+	}
+
+	/**
+	 * Check the input with the validator of the active prompt, displaying the
+	 * error under the input if it is not valid
+	 */
+	private validateInput(): boolean {
+		const validator = this._activePrompt && this._activePrompt.validator;
+		if (!validator) return true;
+
+		let error: string | null | undefined | void;
+		try {
+			error = validator(this._input);
+		} catch (e) {
+			error = e instanceof Error ? e.message : String(e);
+		}
+		if (error || this._validationError) {
+			this._validationError = error || "";
+			this.setInput(this._input);
+		}
+		return !error;
+	}
+
+	/**
+	 * Pass the input through the submit handlers, returning the input to
+	 * submit, or `null` if a handler rejected it
+	 */
+	private applySubmitHandlers(input: string): string | null {
+		for (const handler of this._submitHandlers.slice()) {
+			try {
+				const result = handler(input);
+				if (result === false) return null;
+				if (typeof result === "string") input = result;
+			} catch (e) {
+				console.error("Submit handler error:", e);
+			}
+		}
+		return input;
+	}
+
+	/**
+	 * Auto-complete the token under the cursor using the registered
+	 * handlers, or list the candidates if there are more than one.
+	 *
+	 * If some handlers are asynchronous, the completion is applied once
+	 * they have all finished, unless it is cancelled in the meantime.
+	 */
+	private handleAutocomplete(): void {
+		if (!this.usesCompletion()) return;
+		this._onCompletionRequest.fire({
+			input: this._input,
+			cursor: this._cursor,
+		});
+		if (this._autocompleteHandlers.length === 0) {
+			this.handleCursorInsert("    ");
+			return;
+		}
+
+		// Pressing tab again restarts a pending completion
+		this.cancelAutocomplete();
+
+		const inputFragment = this._input.substr(0, this._cursor);
+		const abort = new AbortController();
+		const result = collectAutocompleteCandidatesAsync(
+			this._autocompleteHandlers,
+			inputFragment,
+			abort.signal,
+		);
+
+		if (Array.isArray(result)) {
+			this.applyAutocompleteCandidates(inputFragment, result);
+			return;
+		}
+
+		this._autocompleteAbort = abort;
+		result.then((candidates) => {
+			if (abort.signal.aborted) return;
+			this._autocompleteAbort = null;
+
+			const state = { input: this._input, cursor: this._cursor };
+			this.batch(() =>
+				this.applyAutocompleteCandidates(inputFragment, candidates),
+			);
+			if (this._input !== state.input) this.undoStack.push(state);
+		});
+	}
+
+	/**
+	 * Abort the pending asynchronous auto-completion, if any
+	 */
+	private cancelAutocomplete(): void {
+		if (this._autocompleteAbort) {
+			this._autocompleteAbort.abort();
+			this._autocompleteAbort = null;
+		}
+	}
+
+	/**
+	 * Complete the input fragment before the cursor with the given
+	 * candidates
+	 *
+	 * The inserted text is quoted like the token being completed, and its
+	 * quote is closed once a single candidate is left.
+	 */
+	private applyAutocompleteCandidates(
+		inputFragment: string,
+		candidates: CompletionCandidate[],
+	): void {
+		const hasTailingSpace = hasTailingWhitespace(inputFragment);
+		const token = getCompletionToken(inputFragment);
+
+		// Sort candidates within their groups, keeping the groups in the
+		// order they are displayed (the order they first appear)
+		const groups: string[] = [];
+		candidates.forEach(({ group = "" }) => {
+			if (!groups.includes(group)) groups.push(group);
+		});
+		candidates.sort(
+			(a, b) =>
+				groups.indexOf(a.group || "") - groups.indexOf(b.group || "") ||
+				(a.value < b.value ? -1 : a.value > b.value ? 1 : 0),
+		);
+
+		// Depending on the number of candidates, we are handling them in
+		// a different way.
+		if (candidates.length === 0) {
+			// No candidates? Just add a space if there is none already
+			if (!hasTailingSpace) {
+				this.handleCursorInsert(" ");
+			}
+		} else if (candidates.length === 1) {
+			// Just a single candidate? Complete
+			this.handleCursorInsert(
+				quoteCompletion(token, candidates[0].value, true) + " ",
+			);
+			this._onCompletionApply.fire({
+				candidate: candidates[0],
+				input: this._input,
+			});
+		} else if (candidates.length <= this.maxAutocompleteEntries) {
+			// search for a shared fragment
+			const sharedFragment = getSharedFragment(
+				token.expr,
+				candidates.map((candidate) => candidate.value),
+			);
+
+			// if there's a shared fragment between the candidates
+			// print complete the shared fragment
+			if (sharedFragment) {
+				this.handleCursorInsert(quoteCompletion(token, sharedFragment));
+			}
+
+			// In menu mode, the candidates are displayed under the prompt
+			// until one of them is selected
+			if (this.autocompleteMenu) {
+				this._completionMenu = {
+					candidates,
+					selected: -1,
+					input: this._input,
+					cursor: this._cursor,
+					start: inputFragment.length,
+					token,
+				};
+				this.setInput(this._input);
+				return;
+			}
+
+			// If we are less than maximum auto-complete candidates, print
+			// them to the user and re-start prompt
+			this.printAndRestartPrompt(() => {
+				this.printCompletions(candidates);
+			});
+		} else {
+			// If we have more than maximum auto-complete candidates, print
+			// them only if the user acknowledges a warning
+			this.printAndRestartPrompt(() =>
+				this.readChar(
+					`Display all ${candidates.length} possibilities? (y or n)`,
+				).then((yn) => {
+					if (yn == "y" || yn == "Y") {
+						this.printCompletions(candidates);
+					}
+				}),
+			);
+		}
+	}
+
+	/**
+	 * Print the completion candidates, along with their descriptions
+	 */
+	private printCompletions(candidates: CompletionCandidate[]): void {
+		const { lines } = layoutCompletions(candidates, this._termSize.cols);
+		lines.forEach((line) => this.println(line));
+	}
+
+	/**
+	 * Render the lines of the completion menu displayed under the given
+	 * input, or an empty string if the menu is closed
+	 *
+	 * If the menu does not fit on the screen, only the lines around the
+	 * selected candidate are displayed.
+	 */
+	private renderCompletionMenu(input: string): string {
+		if (!this._completionMenu) return "";
+		const { candidates, selected } = this._completionMenu;
+		let { lines, cells } = layoutCompletions(
+			candidates,
+			this._termSize.cols,
+			selected,
+		);
+
+		const maxLines =
+			this._termSize.rows -
+			countLines(this.applyPrompts(input), this._termSize.cols);
+		if (this._termSize.rows > 0 && lines.length > maxLines) {
+			const visible = Math.max(1, maxLines - 1);
+			const line = selected < 0 ? 0 : cells[selected].line;
+			const first = Math.max(0, line - visible + 1);
+			const status = `rows ${first + 1} to ${first + visible} of ${lines.length}`;
+			lines = lines
+				.slice(first, first + visible)
+				.concat(`\x1b[2m${status}\x1b[22m`);
+		}
+
+		return lines.map((line) => "\n" + line).join("");
+	}
+
+	/**
+	 * Select a candidate of the completion menu, previewing it in the input
+	 */
+	private selectCompletion(index: number): void {
+		const menu = this._completionMenu;
+		if (!menu) return;
+		const count = menu.candidates.length;
+		menu.selected = (index + count) % count;
+
+		const text = quoteCompletion(
+			menu.token,
+			menu.candidates[menu.selected].value,
+		);
+		this._cursor = menu.start + text.length;
+		this.setInput(
+			menu.input.substr(0, menu.start) +
+				text +
+				menu.input.substr(menu.cursor),
+		);
+	}
+
+	/**
+	 * Select the candidate of the completion menu in the previous or the
+	 * next line, keeping the same column where possible
+	 */
+	private selectCompletionVertically(dir: number): void {
+		const menu = this._completionMenu;
+		if (!menu) return;
+		if (menu.selected < 0) {
+			this.selectCompletion(dir > 0 ? 0 : -1);
+			return;
+		}
+
+		const { cells } = layoutCompletions(
+			menu.candidates,
+			this._termSize.cols,
+		);
+		const current = cells[menu.selected];
+		const lines = Array.from(new Set(cells.map((cell) => cell.line))).sort(
+			(a, b) => a - b,
+		);
+		const target =
+			lines[
+				(lines.indexOf(current.line) + dir + lines.length) %
+					lines.length
+			];
+
+		let index = -1;
+		cells.forEach((cell, i) => {
+			if (
+				cell.line === target &&
+				(index < 0 || cell.column <= current.column)
+			) {
+				index = i;
+			}
+		});
+		this.selectCompletion(index);
+	}
+
+	/**
+	 * Close the completion menu, either keeping the selected candidate or
+	 * restoring the input it was opened with
+	 */
+	private closeCompletionMenu(restore: boolean): void {
+		const menu = this._completionMenu;
+		if (!menu) return;
+		this._completionMenu = null;
+		if (restore) this._cursor = menu.cursor;
+		this.setInput(restore ? menu.input : this._input);
+
+		if (!restore && menu.selected >= 0) {
+			this._onCompletionApply.fire({
+				candidate: menu.candidates[menu.selected],
+				input: this._input,
+			});
+		}
+	}
+
+	/**
+	 * Handle a key press while the completion menu is open
+	 *
+	 * Tab and the arrow keys move through the candidates, enter accepts the
+	 * selected one and escape cancels the selection. Any other key closes the
+	 * menu and it is handled as usual, in which case `false` is returned.
+	 */
+	private handleCompletionMenuData(data: string): boolean {
+		const menu = this._completionMenu!;
+		const binding = this._keyBindings.get(data);
+
+		if (binding === "complete" || data === "\x1b[C") {
+			this.selectCompletion(menu.selected + 1);
+		} else if (data === "\x1b[Z" || data === "\x1b[D") {
+			this.selectCompletion(Math.max(menu.selected, 0) - 1);
+		} else if (data === "\x1b[B") {
+			this.selectCompletionVertically(1);
+		} else if (data === "\x1b[A") {
+			this.selectCompletionVertically(-1);
+		} else if (data === "\r" && menu.selected >= 0) {
+			this.closeCompletionMenu(false);
+			this.handleCursorInsert((menu.token.quote || "") + " ");
+		} else if (data === "\x1b") {
+			this.closeCompletionMenu(true);
+		} else {
+			this.closeCompletionMenu(false);
+			return false;
+		}
+		return true;
+	}
+
+	/**
+	 * Discard the current input, depending on the `interrupt` option
+	 *
+	 * By default the input starts over in a new prompt. The read can be
+	 * rejected with an `InterruptError` instead, or a handler may be called
+	 * with the input before it starts over, unless the handler ended the
+	 * read. The input of a secret is never passed on, an empty string is
+	 * given instead.
+	 */
+	private handleInterrupt(): void {
+		const secret = this.isSecret();
+		const input = secret ? "" : this._input;
+		if (this.interrupt === "reject") {
+			this.setCursor(this._input.length);
+			this.cancelRead("interrupt", new InterruptError(input), "^C");
+			return;
+		}
+		if (typeof this.interrupt === "function") {
+			try {
+				this.interrupt(input);
+			} catch (e) {
+				console.error("Interrupt handler error:", e);
+			}
+			if (!this._active) return;
+		}
+
+		this.setCursor(this._input.length);
+		this.hideSuggestion();
+		this.leavePrompt("^C");
+		this._onCancel.fire({
+			input: secret ? "" : this._input,
+			reason: "interrupt",
+		});
+		this._cursor = 0;
+		this._viMode = "insert";
+		this.setInput("", false);
+		if (this.history) this.history.rewind();
+	}
+
+	/**
+	 * Print the messages of `.printAbove()`, erasing the prompt before them
+	 * and displaying it again after them
+	 */
+	private flushOutput(): void {
+		const output = this._pendingOutput
+			.map((message) => message.replace(/\r\n?/g, "\n"))
+			.map((message) =>
+				message.endsWith("\n") ? message : message + "\n",
+			)
+			.join("")
+			.replace(/\n/g, "\r\n");
+		this._pendingOutput = [];
+
+		// The prompt of `.readChar()` is not tracked, so it is left as it is
+		if (!this._active || this._activeCharPrompt != null) {
+			this.write(output);
+			return;
+		}
+		this.batch(() => {
+			this.clearInput();
+			this.write(output);
+			this.redrawPrompt();
+		});
+	}
+
+	/**
+	 * Display the active prompt from scratch, at the cursor location
+	 */
+	private redrawPrompt(): void {
+		this._rendered = EMPTY_PROMPT;
+		if (this._activeConfirm || this._activeSelect) {
+			this.renderChoicePrompt();
+		} else {
+			this.setInput(this._input, false);
+		}
+	}
+
+	/**
+	 * Returns true if a line, a confirmation or a selection is being read
+	 */
+	private isReading(): boolean {
+		return (
+			this._activePrompt != null ||
+			this._activeConfirm != null ||
+			this._activeSelect != null
+		);
+	}
+
+	/**
+	 * Returns the error a confirmation or a selection prompt is rejected
+	 * with when another read is active, since it would take over the input
+	 */
+	private readingError(): Error {
+		return new Error("Cannot prompt while another read is active");
+	}
+
+	/**
+	 * Display the prompt of `.readConfirm()` or `.readSelect()` that was just
+	 * activated
+	 */
+	private startChoicePrompt(): void {
+		this.forgetInput();
+		this._active = true;
+		this.redrawPrompt();
+	}
+
+	/**
+	 * Activate a `.readSelect()` or a `.readMultiSelect()` prompt, the latter
+	 * when a set of checked values is given
+	 */
+	private startSelect(
+		prompt: string,
+		choices: (string | SelectChoice)[],
+		checked: Set<string> | null,
+		options: SelectOptions,
+		reject: (reason?: any) => void,
+		resolve: (values: string[]) => void,
+	): void {
+		if (this.isReading()) return reject(this.readingError());
+		const normChoices = choices.map((choice) =>
+			typeof choice === "string"
+				? { label: choice, value: choice }
+				: choice,
+		);
+		this._activeSelect = {
+			prompt: prompt.replace(/\r\n?/g, "\n"),
+			choices: normChoices,
+			matches: normChoices,
+			filter: "",
+			selected: 0,
+			top: 0,
+			pageSize: options.pageSize || 10,
+			checked,
+			resolve,
+			reject,
+		};
+		this.startChoicePrompt();
+	}
+
+	/**
+	 * Returns the text of the active confirmation or selection prompt, with
+	 * the offset of the cursor in it
+	 *
+	 * Once answered, only the prompt and the given answer are displayed.
+	 */
+	private getChoicePromptText(answer: string | null): {
+		text: string;
+		cursor: number;
+	} {
+		const confirm = this._activeConfirm;
+		if (confirm) {
+			const hint = confirm.defaultValue ? "(Y/n) " : "(y/N) ";
+			const text = confirm.prompt + hint + (answer || "");
+			return { text, cursor: text.length };
+		}
+
+		const select = this._activeSelect!;
+		const head = select.prompt + (answer ?? select.filter);
+		if (answer != null) return { text: head, cursor: head.length };
+
+		// Keep the selected choice in the visible page
+		const { cols, rows } = this._termSize;
+		let pageSize = select.pageSize;
+		if (rows > 0) {
+			pageSize = Math.min(pageSize, rows - countLines(head, cols));
+		}
+		pageSize = Math.max(1, pageSize);
+		if (select.selected < select.top) {
+			select.top = select.selected;
+		} else if (select.selected >= select.top + pageSize) {
+			select.top = select.selected - pageSize + 1;
+		}
+
+		const lines = select.matches
+			.slice(select.top, select.top + pageSize)
+			.map((choice, i) => {
+				const mark = !select.checked
+					? ""
+					: select.checked.has(choice.value)
+						? "[x] "
+						: "[ ] ";
+				return select.top + i === select.selected
+					? `\x1b[7m> ${mark}${choice.label}\x1b[27m`
+					: `  ${mark}${choice.label}`;
+			});
+		if (lines.length === 0) lines.push("\x1b[2m(no matches)\x1b[22m");
+
+		return {
+			text: head + lines.map((line) => "\n" + line).join(""),
+			cursor: head.length,
+		};
+	}
+
+	/**
+	 * Display the active confirmation or selection prompt
+	 */
+	private renderChoicePrompt(answer: string | null = null): void {
+		const { text, cursor } = this.getChoicePromptText(answer);
+		this.renderFrame(
+			text,
+			offsetToColRow(text, cursor, this._termSize.cols),
+		);
+	}
+
+	/**
+	 * Leave the active confirmation or selection prompt, displaying the
+	 * given answer after it
+	 */
+	private endChoicePrompt(answer: string): void {
+		this.renderChoicePrompt(answer);
+		this.leavePrompt();
+		this._activeConfirm = null;
+		this._activeSelect = null;
+		this._active = false;
+	}
+
+	/**
+	 * Handle a key press in a `.readConfirm()` prompt
+	 */
+	private handleConfirmData(data: string): void {
+		const confirm = this._activeConfirm!;
+		let value: boolean;
+		if (data === "y" || data === "Y") value = true;
+		else if (data === "n" || data === "N") value = false;
+		else if (data === "\r") value = confirm.defaultValue;
+		else {
+			if (data === "\x03") {
+				this.cancelRead("interrupt", new InterruptError(""), "^C");
+			}
+			return;
+		}
+
+		this.endChoicePrompt(value ? "y" : "n");
+		confirm.resolve(value);
+	}
+
+	/**
+	 * Handle a key press in a `.readSelect()` or `.readMultiSelect()` prompt
+	 */
+	private handleSelectData(data: string): void {
+		const select = this._activeSelect!;
+		const { matches, checked } = select;
+		let filter = select.filter;
+
+		// In a multiple selection, space checks the choice instead of
+		// filtering
+		if (data === " " && checked) {
+			const choice = matches[select.selected];
+			if (!choice) return;
+			if (checked.has(choice.value)) checked.delete(choice.value);
+			else checked.add(choice.value);
+			this.renderChoicePrompt();
+			return;
+		}
+
+		switch (data) {
+			case "\x1b[A": // Up arrow
+			case "\x1b[B": // Down arrow
+				if (matches.length > 0) {
+					const step = data === "\x1b[A" ? -1 : 1;
+					select.selected =
+						(select.selected + step + matches.length) %
+						matches.length;
+				}
+				break;
+
+			case "\r": {
+				if (!checked && matches.length === 0) return;
+				const chosen = checked
+					? select.choices.filter((c) => checked.has(c.value))
+					: [matches[select.selected]];
+				this.endChoicePrompt(chosen.map((c) => c.label).join(", "));
+				select.resolve(chosen.map((c) => c.value));
+				return;
+			}
+
+			case "\x03": // CTRL+C
+				this.cancelRead("interrupt", new InterruptError(filter), "^C");
+				return;
+
+			case "\x7F": // BACKSPACE
+				filter = filter.substr(
+					0,
+					previousGraphemeOffset(filter, filter.length),
+				);
+				break;
+
+			case "\x15": // CTRL+U
+				filter = "";
+				break;
+
+			default:
+				if (data.charCodeAt(0) === 0x1b) return;
+				filter += data.replace(/[\x00-\x1f\x7f]/g, "");
+		}
+
+		// Filtering starts over from the first match
+		if (filter !== select.filter) {
+			const query = filter.toLowerCase();
+			select.filter = filter;
+			select.matches = select.choices.filter((choice) =>
+				choice.label.toLowerCase().includes(query),
+			);
+			select.selected = 0;
+			select.top = 0;
+		}
+		this.renderChoicePrompt();
+	}
+
+	/**
+	 * Clear the screen and display the prompt again at its top
+	 */
+	private handleClearScreen(): void {
+		this.write("\x1b[H\x1b[2J");
+		this.redrawPrompt();
+	}
+
+	/**
+	 * Handle a single piece of information from the terminal, recording the
+	 * changes it makes to the input so that they can be undone.
+	 */
+	private handleData(data: string): void {
+		if (!this._active) return;
+		const state = { input: this._input, cursor: this._cursor };
+		const searching = this._search != null;
+		const completing = this._completionMenu != null;
+
+		this.handleKey(data);
+		if (this._lastAction === "undo") return;
+
+		// Consecutive inserts, and the steps of a search or a completion
+		// menu, are undone at once
+		let group: string | null = null;
+		if (searching) group = "search";
+		else if (completing) group = "complete";
+		else if (
+			this._lastAction === "insert" ||
+			(this.editMode === "vi" && this._viMode === "insert")
+		) {
+			group = "insert";
+		}
+
+		if (this._input !== state.input) {
+			this.undoStack.push(state, group);
+		} else if (group === null) {
+			this.undoStack.seal();
+		}
+	}
+
+	/**
+	 * Handle a single key press
+	 */
+	private handleKey(data: string): void {
+		const ord = data.charCodeAt(0);
+
+		// Typing cancels the pending auto-completion
+		this.cancelAutocomplete();
+
+		// The completion menu consumes the keys that navigate through it
+		if (this._completionMenu && this.handleCompletionMenuData(data)) {
+			return;
+		}
+
+		// Kill and yank commands depend on the previous command
+		const lastAction = this._lastAction;
+		this._lastAction = null;
+
+		// Incremental search consumes most of the keys
+		if (this._search && this.handleSearchData(data)) return;
+
+		// In vi mode, escape enters the normal mode that handles most keys
+		if (this.editMode === "vi") {
+			if (this._viMode === "normal") {
+				this._historyPrefix = null;
+				if (this.handleViNormalData(data)) return;
+			} else if (data === "\x1b") {
+				this.handleViModeChange("normal");
+				return;
+			}
+		}
+
+		// Any key other than the history navigation ends the prefix navigation
+		const binding = this._keyBindings.get(data);
+		if (binding !== "previous-history" && binding !== "next-history") {
+			this._historyPrefix = null;
+		}
+
+		if (typeof binding === "function") {
+			binding(this.createKeyBindingContext(lastAction), data);
+		} else if (binding != null) {
+			this._editingActions[binding](lastAction);
+		} else if (ord >= 32 && ord !== 0x7f && ord !== 0x1b) {
+			// Visible characters are inserted as they are
 			this.handleCursorInsert(data);
+			this._lastAction = "insert";
 		}
 	}
 }
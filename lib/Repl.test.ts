@@ -0,0 +1,50 @@
+import { HeadlessTerminal } from "./HeadlessTerminal";
+import LocalEchoController from "./LocalEchoController";
+import { Repl } from "./Repl";
+
+import { Terminal } from "@xterm/xterm";
+import { expect, test } from "vitest";
+
+/**
+ * Test running commands until the input ends
+ */
+test("Repl run()", async () => {
+	const term = new HeadlessTerminal(40, 10);
+	const localEcho = new LocalEchoController(term as unknown as Terminal);
+	const repl = new Repl(localEcho, { prompt: "> " });
+	repl.commands.register({
+		name: "greet",
+		args: [{ name: "name" }],
+		flags: [{ name: "loud", alias: "l" }],
+		handler: async ({ args, flags, print }) => {
+			const greeting = `Hello, ${args.name}!`;
+			print(flags.loud ? greeting.toUpperCase() : greeting);
+		},
+	});
+	repl.commands.register({
+		name: "fail",
+		handler: () => {
+			throw new Error("Oops");
+		},
+	});
+
+	const done = repl.run();
+	const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+	for (const line of ["gr\t--l\tworld\r", "greet\r", "fail\r"]) {
+		term.type(...line);
+		await flush();
+	}
+	term.type("\x04");
+	await done;
+
+	expect(term.getScreen().slice(0, 8)).toEqual([
+		"> greet --loud world",
+		"HELLO, WORLD!",
+		"> greet",
+		"Missing argument: name",
+		"Usage: greet [options] <name>",
+		"> fail",
+		"Error: Oops",
+		">",
+	]);
+});
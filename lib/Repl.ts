@@ -0,0 +1,100 @@
+import { CommandRegistry } from "./CommandRegistry";
+import { EOFError, InterruptError, UsageError } from "./Errors";
+import LocalEchoController from "./LocalEchoController";
+import { AutocompleteCallback } from "./utils";
+
+/**
+ * The options of a REPL
+ */
+export interface ReplOptions {
+	prompt?: string;
+	continuationPrompt?: string;
+	commands?: CommandRegistry;
+}
+
+/**
+ * The REPL reads command lines with a local echo controller and runs the
+ * commands of its registry, until the user ends the input with Ctrl-D.
+ *
+ * The commands are completed with the tab key, and their errors are printed
+ * before reading the next command line.
+ */
+export class Repl {
+	readonly commands: CommandRegistry;
+	private localEcho: LocalEchoController;
+	private prompt: string;
+	private continuationPrompt: string;
+	private running: boolean;
+	private _complete: AutocompleteCallback;
+
+	constructor(localEcho: LocalEchoController, options: ReplOptions = {}) {
+		this.localEcho = localEcho;
+		this.commands = options.commands || new CommandRegistry();
+		this.prompt = options.prompt ?? "$ ";
+		this.continuationPrompt = options.continuationPrompt ?? "> ";
+		this.running = false;
+		this._complete = (index: number, tokens: string[]) =>
+			this.commands.complete(index, tokens);
+		this.localEcho.addAutocompleteHandler(this._complete);
+	}
+
+	/**
+	 * Read and run command lines, until the input ends or the REPL is
+	 * stopped
+	 *
+	 * Interrupting a read with Ctrl-C starts over with a new command line,
+	 * whatever the `interrupt` option of the controller.
+	 */
+	async run(): Promise<void> {
+		this.running = true;
+		while (this.running) {
+			let input: string;
+			try {
+				input = await this.localEcho.read(
+					this.prompt,
+					this.continuationPrompt,
+				);
+			} catch (e) {
+				if (e instanceof InterruptError) continue;
+				if (!(e instanceof EOFError) && this.running) throw e;
+				break;
+			}
+			await this.execute(input);
+		}
+		this.running = false;
+	}
+
+	/**
+	 * Stop reading command lines, aborting the pending read
+	 */
+	stop(): void {
+		if (!this.running) return;
+		this.running = false;
+		this.localEcho.abortRead("stopped");
+	}
+
+	/**
+	 * Remove the auto-complete handler of the REPL from the controller
+	 */
+	dispose(): void {
+		this.stop();
+		this.localEcho.removeAutocompleteHandler(this._complete);
+	}
+
+	/**
+	 * Run the given command line, printing its errors
+	 */
+	private async execute(input: string): Promise<void> {
+		const print = (message: string) => this.localEcho.println(message);
+		try {
+			await this.commands.execute(input, print);
+		} catch (e) {
+			if (e instanceof UsageError) {
+				print(e.message);
+				if (e.usage) print(e.usage);
+			} else {
+				print(`Error: ${e instanceof Error ? e.message : String(e)}`);
+			}
+		}
+	}
+}
@@ -0,0 +1,149 @@
+import { tokenizeShell, unquoteShellWord } from "./ShellTokenizer";
+
+import { expect, test } from "vitest";
+
+/**
+ * Test shell tokenization with source locations
+ */
+test("tokenizeShell()", () => {
+	expect(
+		tokenizeShell(`ls "a b"|grep 'c`).map(({ type, text, quote }) => [
+			type,
+			text,
+			quote,
+		]),
+	).toEqual([
+		["word", "ls", null],
+		["whitespace", " ", null],
+		["word", `"a b"`, null],
+		["operator", "|", null],
+		["word", "grep", null],
+		["whitespace", " ", null],
+		["word", `'c`, "'"],
+	]);
+
+	expect(tokenizeShell(`echo a\\ b # note`)).toEqual([
+		{
+			type: "word",
+			text: "echo",
+			start: 0,
+			end: 4,
+			quote: null,
+			unterminated: false,
+		},
+		{
+			type: "whitespace",
+			text: " ",
+			start: 4,
+			end: 5,
+			quote: null,
+			unterminated: false,
+		},
+		{
+			type: "word",
+			text: "a\\ b",
+			start: 5,
+			end: 9,
+			quote: null,
+			unterminated: false,
+		},
+		{
+			type: "whitespace",
+			text: " ",
+			start: 9,
+			end: 10,
+			quote: null,
+			unterminated: false,
+		},
+		{
+			type: "comment",
+			text: "# note",
+			start: 10,
+			end: 16,
+			quote: null,
+			unterminated: false,
+		},
+	]);
+});
+
+/**
+ * Test reporting the tokens that the command line has to go on for
+ */
+test("tokenizeShell() unterminated tokens", () => {
+	const unterminated = (input: string) =>
+		tokenizeShell(input)
+			.filter((token) => token.unterminated)
+			.map(({ text, quote }) => [text, quote]);
+
+	expect(unterminated(`echo 'a' "b"`)).toEqual([]);
+	expect(unterminated(`echo "a \\" b`)).toEqual([[`"a \\" b`, '"']]);
+	expect(unterminated(`echo 'a \\' b`)).toEqual([]);
+	expect(unterminated("echo `date")).toEqual([["`date", "`"]]);
+	expect(unterminated("echo `date` ok")).toEqual([]);
+	expect(unterminated(`echo a\\`)).toEqual([[`a\\`, null]]);
+	expect(unterminated(`echo a\\\\`)).toEqual([]);
+});
+
+/**
+ * Test tokenizing the here-documents
+ */
+test("tokenizeShell() here-documents", () => {
+	const tokens = (input: string) =>
+		tokenizeShell(input)
+			.filter((token) => token.type !== "whitespace")
+			.map(({ type, text, unterminated }) => [type, text, unterminated]);
+
+	expect(tokens("cat <<EOF\nfoo\nEOF\nls")).toEqual([
+		["word", "cat", false],
+		["operator", "<<", false],
+		["word", "EOF", false],
+		["heredoc", "foo\nEOF\n", false],
+		["word", "ls", false],
+	]);
+	expect(tokens("cat << 'EOF'\nfoo")).toEqual([
+		["word", "cat", false],
+		["operator", "<<", true],
+		["word", "'EOF'", false],
+		["heredoc", "foo", true],
+	]);
+	expect(tokens("cat <<-EOF\n\tEOF")).toEqual([
+		["word", "cat", false],
+		["operator", "<<-", false],
+		["word", "EOF", false],
+		["heredoc", "\tEOF", false],
+	]);
+	expect(tokens("cat <<A <<B # c\nA\nB\n")).toEqual([
+		["word", "cat", false],
+		["operator", "<<", false],
+		["word", "A", false],
+		["operator", "<<", false],
+		["word", "B", false],
+		["comment", "# c", false],
+		["heredoc", "A\n", false],
+		["heredoc", "B\n", false],
+	]);
+	expect(tokens("cat <<A <<B\nB\nA")).toEqual([
+		["word", "cat", false],
+		["operator", "<<", false],
+		["word", "A", false],
+		["operator", "<<", true],
+		["word", "B", false],
+		["heredoc", "B\nA", false],
+	]);
+	expect(tokens("cat <<<foo")).toEqual([
+		["word", "cat", false],
+		["operator", "<<<", false],
+		["word", "foo", false],
+	]);
+});
+
+/**
+ * Test removing the quotes and the escapes of shell words
+ */
+test("unquoteShellWord()", () => {
+	expect(unquoteShellWord(`a\\ b`)).toEqual("a b");
+	expect(unquoteShellWord(`'a "b'`)).toEqual(`a "b`);
+	expect(unquoteShellWord(`"a \\"b\\c $d"`)).toEqual(`a "b\\c $d`);
+	expect(unquoteShellWord(`"a b`)).toEqual("a b");
+	expect(unquoteShellWord(`a\\`)).toEqual("a");
+});
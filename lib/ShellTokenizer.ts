@@ -0,0 +1,213 @@
+/**
+ * The control operators recognized by the shell tokenizer, matching the ones
+ * of `shell-quote` (along with the here-document ones), longest first.
+ */
+const SHELL_OPERATORS = [
+	"<<<",
+	"<<-",
+	"<<",
+	"||",
+	"&&",
+	";;",
+	"|&",
+	"<(",
+	">>",
+	">&",
+	"<&",
+	"&",
+	";",
+	"(",
+	")",
+	"|",
+	"<",
+	">",
+];
+
+/**
+ * A token of a shell command line, along with its location in the source
+ *
+ * The `quote` of a word is the quote (or backtick) left open at its end, if
+ * any. A token is `unterminated` if the command line has to go on for it to
+ * be complete: a word with an open quote or a dangling backslash, or a
+ * here-document operator (and its body) without its delimiter line.
+ */
+export interface ShellToken {
+	type: "word" | "operator" | "whitespace" | "comment" | "heredoc";
+	text: string;
+	start: number;
+	end: number;
+	quote: '"' | "'" | "`" | null;
+	unterminated: boolean;
+}
+
+/**
+ * A here-document whose body is expected after the current line
+ */
+interface PendingHeredoc {
+	operator: ShellToken;
+	delimiter: string;
+	stripTabs: boolean;
+}
+
+/**
+ * Splits the given shell command line into tokens, keeping their raw text
+ * and location.
+ *
+ * Unlike `parse()` of `shell-quote`, which only returns the values of the
+ * words, quotes and escapes are kept in the tokens and unterminated ones are
+ * reported. The bodies of the here-documents are single tokens, starting in
+ * the line after their operator.
+ */
+export function tokenizeShell(input: string): ShellToken[] {
+	const tokens: ShellToken[] = [];
+	const heredocs: PendingHeredoc[] = [];
+	const operatorAt = (i: number) =>
+		SHELL_OPERATORS.find((op) => input.startsWith(op, i));
+	let previous: ShellToken | undefined;
+	let i = 0;
+
+	while (i < input.length) {
+		const start = i;
+		const chr = input.charAt(i);
+		let type: ShellToken["type"] = "word";
+		let quote: ShellToken["quote"] = null;
+		let dangling = false;
+		const op = operatorAt(i);
+
+		if (/\s/.test(chr)) {
+			// A new-line ends the whitespace if here-documents start after it
+			type = "whitespace";
+			while (i < input.length && /\s/.test(input.charAt(i))) {
+				if (input.charAt(i++) === "\n" && heredocs.length > 0) break;
+			}
+		} else if (chr === "#") {
+			type = "comment";
+			i = input.indexOf("\n", i);
+			if (i === -1) i = input.length;
+		} else if (op) {
+			type = "operator";
+			i += op.length;
+		} else {
+			while (i < input.length) {
+				const c = input.charAt(i);
+				if (quote === "'") {
+					if (c === quote) quote = null;
+				} else if (c === "\\") {
+					dangling = i === input.length - 1;
+					++i;
+				} else if (quote) {
+					if (c === quote) quote = null;
+				} else if (c === "'" || c === '"' || c === "`") {
+					quote = c;
+				} else if (/\s/.test(c) || operatorAt(i)) {
+					break;
+				}
+				++i;
+			}
+			i = Math.min(i, input.length);
+		}
+
+		const token: ShellToken = {
+			type,
+			text: input.substring(start, i),
+			start,
+			end: i,
+			quote,
+			unterminated: quote != null || dangling,
+		};
+		tokens.push(token);
+
+		// The word after a here-document operator is its delimiter
+		if (
+			type === "word" &&
+			previous &&
+			previous.type === "operator" &&
+			(previous.text === "<<" || previous.text === "<<-")
+		) {
+			previous.unterminated = true;
+			heredocs.push({
+				operator: previous,
+				delimiter: unquoteShellWord(token.text),
+				stripTabs: previous.text === "<<-",
+			});
+		}
+		if (type !== "whitespace") previous = token;
+
+		if (type === "whitespace" && input.charAt(i - 1) === "\n") {
+			i = tokenizeHeredocs(input, i, heredocs.splice(0), tokens);
+		}
+	}
+
+	return tokens;
+}
+
+/**
+ * Adds the tokens of the bodies of the given here-documents, starting at
+ * the given offset, and returns the offset after them
+ *
+ * Each body ends with the line that matches its delimiter, ignoring the
+ * leading tabs for the `<<-` operator.
+ */
+function tokenizeHeredocs(
+	input: string,
+	offset: number,
+	heredocs: PendingHeredoc[],
+	tokens: ShellToken[],
+): number {
+	for (const { operator, delimiter, stripTabs } of heredocs) {
+		const start = offset;
+		let found = false;
+		while (!found && offset < input.length) {
+			let end = input.indexOf("\n", offset);
+			end = end === -1 ? input.length : end + 1;
+			const line = input.substring(offset, end).replace(/\n$/, "");
+			found = (stripTabs ? line.replace(/^\t+/, "") : line) === delimiter;
+			offset = end;
+		}
+
+		operator.unterminated = !found;
+		if (offset > start) {
+			tokens.push({
+				type: "heredoc",
+				text: input.substring(start, offset),
+				start,
+				end: offset,
+				quote: null,
+				unterminated: !found,
+			});
+		}
+	}
+	return offset;
+}
+
+/**
+ * Removes the quotes and the escapes of the given shell word, keeping the
+ * variables and the command substitutions as they are
+ *
+ * An unterminated quote is dropped, along with a dangling backslash.
+ */
+export function unquoteShellWord(text: string): string {
+	let result = "";
+	let quote: ShellToken["quote"] = null;
+
+	for (let i = 0; i < text.length; ++i) {
+		const chr = text.charAt(i);
+		if (quote === "'") {
+			if (chr === "'") quote = null;
+			else result += chr;
+		} else if (quote === '"') {
+			if (chr === '"') quote = null;
+			else if (chr === "\\" && /["\\$`]/.test(text.charAt(i + 1))) {
+				result += text.charAt(++i);
+			} else result += chr;
+		} else if (chr === "\\") {
+			result += text.charAt(++i);
+		} else if (chr === "'" || chr === '"') {
+			quote = chr;
+		} else {
+			result += chr;
+		}
+	}
+
+	return result;
+}
@@ -0,0 +1,66 @@
+import { UndoStack } from "./UndoStack";
+
+import { expect, test } from "vitest";
+
+/**
+ * Test undoing and redoing changes
+ */
+test("UndoStack undo()/redo()", () => {
+	const undo = new UndoStack(10);
+	undo.push({ input: "", cursor: 0 });
+	undo.push({ input: "foo", cursor: 3 });
+
+	expect(undo.undo({ input: "foo bar", cursor: 7 })).toEqual({
+		input: "foo",
+		cursor: 3,
+	});
+	expect(undo.undo({ input: "foo", cursor: 3 })).toEqual({
+		input: "",
+		cursor: 0,
+	});
+	expect(undo.undo({ input: "", cursor: 0 })).toEqual(undefined);
+
+	expect(undo.redo({ input: "", cursor: 0 })).toEqual({
+		input: "foo",
+		cursor: 3,
+	});
+
+	// A new change discards the states that could be redone
+	undo.push({ input: "foo", cursor: 3 });
+	expect(undo.redo({ input: "foo!", cursor: 4 })).toEqual(undefined);
+});
+
+/**
+ * Test grouping consecutive changes
+ */
+test("UndoStack groups", () => {
+	const undo = new UndoStack(10);
+	undo.push({ input: "", cursor: 0 }, "insert");
+	undo.push({ input: "a", cursor: 1 }, "insert");
+	undo.push({ input: "ab", cursor: 2 }, "insert");
+	undo.seal();
+	undo.push({ input: "abc", cursor: 3 }, "insert");
+
+	expect(undo.undo({ input: "abcd", cursor: 4 })).toEqual({
+		input: "abc",
+		cursor: 3,
+	});
+	expect(undo.undo({ input: "abc", cursor: 3 })).toEqual({
+		input: "",
+		cursor: 0,
+	});
+});
+
+/**
+ * Test the maximum number of undo steps
+ */
+test("UndoStack size", () => {
+	const undo = new UndoStack(2);
+	undo.push({ input: "", cursor: 0 });
+	undo.push({ input: "a", cursor: 1 });
+	undo.push({ input: "ab", cursor: 2 });
+
+	expect(undo.undo({ input: "abc", cursor: 3 })?.input).toEqual("ab");
+	expect(undo.undo({ input: "ab", cursor: 2 })?.input).toEqual("a");
+	expect(undo.undo({ input: "a", cursor: 1 })).toEqual(undefined);
+});
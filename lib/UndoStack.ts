@@ -0,0 +1,81 @@
+/**
+ * A snapshot of the line being edited
+ */
+export interface EditState {
+	input: string;
+	cursor: number;
+}
+
+/**
+ * The undo stack keeps the previous states of the input, so that changes
+ * can be reverted (and re-applied) one step at a time.
+ */
+export class UndoStack {
+	private size: number;
+	private undoStates: EditState[];
+	private redoStates: EditState[];
+	private group: string | null;
+
+	constructor(size: number) {
+		this.size = size;
+		this.undoStates = [];
+		this.redoStates = [];
+		this.group = null;
+	}
+
+	/**
+	 * Record the state before a change
+	 *
+	 * Consecutive changes of the same `group` (such as inserted characters)
+	 * are reverted in a single step, so only the state before the first one
+	 * is kept. Any new change discards the states that could be redone.
+	 */
+	push(state: EditState, group: string | null = null): void {
+		this.redoStates = [];
+		if (group !== null && group === this.group) return;
+
+		this.undoStates.push(state);
+		if (this.undoStates.length > this.size) {
+			this.undoStates.shift();
+		}
+		this.group = group;
+	}
+
+	/**
+	 * End the current group, so that the next change is a separate step
+	 */
+	seal(): void {
+		this.group = null;
+	}
+
+	/**
+	 * Returns the state before the last change, keeping the `current` one
+	 * so that it can be redone
+	 */
+	undo(current: EditState): EditState | undefined {
+		const state = this.undoStates.pop();
+		if (state) this.redoStates.push(current);
+		this.group = null;
+		return state;
+	}
+
+	/**
+	 * Returns the state of the last undone change, keeping the `current`
+	 * one so that it can be undone again
+	 */
+	redo(current: EditState): EditState | undefined {
+		const state = this.redoStates.pop();
+		if (state) this.undoStates.push(current);
+		this.group = null;
+		return state;
+	}
+
+	/**
+	 * Forget all the recorded states
+	 */
+	clear(): void {
+		this.undoStates = [];
+		this.redoStates = [];
+		this.group = null;
+	}
+}
@@ -1,11 +1,26 @@
 import {
 	wordBoundaries,
 	closestLeftBoundary,
+	closestLeftWhitespaceBoundary,
 	closestRightBoundary,
 	offsetToColRow,
+	graphemes,
+	previousGraphemeOffset,
+	nextGraphemeOffset,
+	stringWidth,
+	stripAnsi,
 	isIncompleteInput,
 	collectAutocompleteCandidates,
+	collectAutocompleteCandidatesAsync,
+	layoutCompletions,
+	partialMarkerLength,
 	getSharedFragment,
+	getCompletionToken,
+	quoteCompletion,
+	highlightShell,
+	commonPrefixLength,
+	activeStyles,
+	styleRange,
 } from "./utils";
 
 import { expect, test } from "vitest";
@@ -36,6 +51,16 @@ test("closestRightBoundary()", () => {
 	expect(closestRightBoundary("foo bar baz", 11)).toEqual(11);
 });
 
+/**
+ * Test closest left whitespace boundary
+ */
+test("closestLeftWhitespaceBoundary()", () => {
+	expect(closestLeftWhitespaceBoundary("foo bar-baz", 11)).toEqual(4);
+	expect(closestLeftWhitespaceBoundary("foo bar-baz  ", 13)).toEqual(4);
+	expect(closestLeftWhitespaceBoundary("foo bar-baz", 3)).toEqual(0);
+	expect(closestLeftWhitespaceBoundary("foo bar-baz", 0)).toEqual(0);
+});
+
 /**
  * Test offset to row/col de-composition
  */
@@ -60,7 +85,7 @@ test("offsetToColRow()", () => {
 		offsetToColRow("test single line case that wraps", 26, colSize),
 	).toEqual({
 		row: 1,
-		col: 0,
+		col: 1,
 	});
 
 	expect(offsetToColRow("test\nmulti\nline case\n", 4, colSize)).toEqual({
@@ -94,7 +119,7 @@ test("offsetToColRow()", () => {
 		),
 	).toEqual({
 		row: 1,
-		col: 0,
+		col: 1,
 	});
 	expect(
 		offsetToColRow(
@@ -108,6 +133,95 @@ test("offsetToColRow()", () => {
 	});
 });
 
+/**
+ * Test that the character that overflows a line is counted in the next
+ * one, where the cursor lands right after it
+ */
+test("offsetToColRow() after a wrap", () => {
+	expect(offsetToColRow("abcdef", 5, 5)).toEqual({ row: 0, col: 5 });
+	expect(offsetToColRow("abcdef", 6, 5)).toEqual({ row: 1, col: 1 });
+	expect(offsetToColRow("abcdefghijk", 11, 5)).toEqual({ row: 2, col: 1 });
+});
+
+/**
+ * Test offset to row/col de-composition with wide characters
+ */
+test("offsetToColRow() with wide characters", () => {
+	expect(offsetToColRow("中文 text", 2, 10)).toEqual({ row: 0, col: 4 });
+	expect(offsetToColRow("a😀b", 3, 10)).toEqual({ row: 0, col: 3 });
+	expect(offsetToColRow("e\u0301e", 2, 10)).toEqual({ row: 0, col: 1 });
+
+	// A wide character that does not fit in the last column wraps
+	expect(offsetToColRow("abcd中", 4, 5)).toEqual({ row: 0, col: 4 });
+	expect(offsetToColRow("abcd中", 5, 5)).toEqual({ row: 1, col: 2 });
+	expect(offsetToColRow("abc中", 4, 5)).toEqual({ row: 0, col: 5 });
+});
+
+/**
+ * Test offset to row/col de-composition with ANSI escape sequences
+ */
+test("offsetToColRow() with ANSI escape sequences", () => {
+	const prompt = "\x1b[32m~$\x1b[0m ";
+	expect(offsetToColRow(prompt, prompt.length, 10)).toEqual({
+		row: 0,
+		col: 3,
+	});
+	expect(
+		offsetToColRow(prompt + "0123456789", prompt.length + 8, 10),
+	).toEqual({ row: 1, col: 1 });
+	expect(offsetToColRow("\x1b]0;title\x07\x1b[1mbold\nline", 21, 10)).toEqual(
+		{ row: 1, col: 2 },
+	);
+});
+
+/**
+ * Test ANSI escape sequence removal
+ */
+test("stripAnsi()", () => {
+	expect(stripAnsi("\x1b[1;32mgreen\x1b[0m text")).toEqual("green text");
+	expect(stripAnsi("\x1b]0;title\x07plain")).toEqual("plain");
+	expect(stringWidth("\x1b[32m中\x1b[0m")).toEqual(2);
+});
+
+/**
+ * Test grapheme cluster segmentation
+ */
+test("graphemes()", () => {
+	expect(graphemes("abc")).toEqual(["a", "b", "c"]);
+	expect(graphemes("e\u0301x")).toEqual(["e\u0301", "x"]);
+	expect(graphemes("a😀b")).toEqual(["a", "😀", "b"]);
+	expect(graphemes("👍🏽👨‍👩‍👧")).toEqual(["👍🏽", "👨‍👩‍👧"]);
+	expect(graphemes("🇫🇷🇬🇷")).toEqual(["🇫🇷", "🇬🇷"]);
+	expect(graphemes("❤️!")).toEqual(["❤️", "!"]);
+});
+
+/**
+ * Test grapheme cluster boundary navigation
+ */
+test("previousGraphemeOffset()/nextGraphemeOffset()", () => {
+	const input = "a👨‍👩‍👧e\u0301";
+	expect(nextGraphemeOffset(input, 0)).toEqual(1);
+	expect(nextGraphemeOffset(input, 1)).toEqual(9);
+	expect(nextGraphemeOffset(input, 9)).toEqual(11);
+	expect(nextGraphemeOffset(input, 11)).toEqual(11);
+	expect(previousGraphemeOffset(input, 11)).toEqual(9);
+	expect(previousGraphemeOffset(input, 9)).toEqual(1);
+	expect(previousGraphemeOffset(input, 1)).toEqual(0);
+	expect(previousGraphemeOffset(input, 0)).toEqual(0);
+});
+
+/**
+ * Test column width calculation
+ */
+test("stringWidth()", () => {
+	expect(stringWidth("abc")).toEqual(3);
+	expect(stringWidth("中文")).toEqual(4);
+	expect(stringWidth("ｱ한")).toEqual(3);
+	expect(stringWidth("😀👍🏽👨‍👩‍👧")).toEqual(6);
+	expect(stringWidth("e\u0301")).toEqual(1);
+	expect(stringWidth("❤️")).toEqual(2);
+});
+
 /**
  * Tests if isIncompleteInput correctly detects various cases
  */
@@ -203,6 +317,154 @@ test("collectAutocompleteCandidates()", () => {
 	]);
 });
 
+/**
+ * Test locating the token to complete, through quotes and escapes
+ */
+test("getCompletionToken()", () => {
+	expect(getCompletionToken(`cat "my fi`)).toEqual({
+		index: 1,
+		tokens: ["cat", "my fi"],
+		expr: "my fi",
+		text: `"my fi`,
+		start: 4,
+		quote: '"',
+	});
+	expect(getCompletionToken(`cat a\\ b|wc `)).toMatchObject({
+		index: 4,
+		tokens: ["cat", "a b", { op: "|" }, "wc", ""],
+		expr: "",
+	});
+	expect(getCompletionToken(`ls 'it'"'"s`)).toMatchObject({
+		index: 1,
+		expr: "it's",
+		start: 3,
+		quote: null,
+	});
+});
+
+/**
+ * Test quoting the completed text like the token it completes
+ */
+test("quoteCompletion()", () => {
+	const complete = (input: string, candidate: string, final?: boolean) =>
+		input + quoteCompletion(getCompletionToken(input), candidate, final);
+
+	expect(complete(`cat my`, "my file $1")).toEqual(`cat my\\ file\\ \\$1`);
+	expect(complete(`cat my\\`, "my file")).toEqual(`cat my\\ file`);
+	expect(complete(`cat "my`, `my "$1"`, true)).toEqual(`cat "my \\"\\$1\\""`);
+	expect(complete(`cat 'my`, "my 'x'", true)).toEqual(`cat 'my '\\''x'\\'''`);
+	expect(complete(`cat `, "#1")).toEqual(`cat \\#1`);
+});
+
+/**
+ * Test collecting candidates from asynchronous handlers
+ */
+test("collectAutocompleteCandidatesAsync()", async () => {
+	const syncCb = () => ["ab", "b"];
+	const promiseCb = () => Promise.resolve(["abc", "c"]);
+	const iterableCb = async function* () {
+		yield "abcd";
+		yield ["abcde", "d"];
+	};
+	const slowCb = () => new Promise<string[]>(() => {});
+
+	// Synchronous handlers return the candidates right away
+	expect(
+		collectAutocompleteCandidatesAsync([{ fn: syncCb, args: [] }], "a"),
+	).toEqual([{ value: "ab" }]);
+
+	// Results are merged as they arrive, and slow handlers time out
+	const result = collectAutocompleteCandidatesAsync(
+		[
+			{ fn: syncCb, args: [] },
+			{ fn: promiseCb, args: [] },
+			{ fn: iterableCb, args: [] },
+			{ fn: slowCb, args: [], timeout: 10 },
+		],
+		"a",
+	);
+	expect(result).toBeInstanceOf(Promise);
+	expect((await result).map(({ value }) => value).sort()).toEqual([
+		"ab",
+		"abc",
+		"abcd",
+		"abcde",
+	]);
+
+	// Aborting the signal resolves with the candidates collected so far
+	const abort = new AbortController();
+	let received: AbortSignal | undefined;
+	const pending = collectAutocompleteCandidatesAsync(
+		[
+			{ fn: syncCb, args: [] },
+			{
+				fn: (index, tokens, signal) => {
+					received = signal;
+					return slowCb();
+				},
+				args: [],
+			},
+		],
+		"",
+		abort.signal,
+	);
+	expect(received).toBe(abort.signal);
+	abort.abort();
+	expect(await pending).toEqual([{ value: "ab" }, { value: "b" }]);
+});
+
+/**
+ * Test the layout of the completion candidates
+ */
+test("layoutCompletions()", () => {
+	// Candidates without descriptions are arranged in a grid
+	const grid = layoutCompletions(
+		[{ value: "a" }, { value: "bb" }, { value: "ccc" }, { value: "d" }],
+		12,
+	);
+	expect(grid.lines).toEqual(["a    bb ", "ccc  d  "]);
+	expect(grid.cells).toEqual([
+		{ line: 0, column: 0 },
+		{ line: 0, column: 1 },
+		{ line: 1, column: 0 },
+		{ line: 1, column: 1 },
+	]);
+
+	// Descriptions are aligned, and candidates are listed by group
+	const list = layoutCompletions(
+		[
+			{ value: "-a", label: "--all", description: "Show all" },
+			{ value: "-l", description: "Long format" },
+			{ value: "src/", group: "files" },
+		],
+		40,
+		1,
+	);
+	expect(list.lines).toEqual([
+		"--all  -- Show all",
+		"\x1b[7m-l   \x1b[27m  -- Long format",
+		"\x1b[1mfiles\x1b[22m",
+		"src/",
+	]);
+	expect(list.cells[2]).toEqual({ line: 3, column: 0 });
+
+	// Descriptions are truncated to the terminal width
+	expect(
+		layoutCompletions([{ value: "a", description: "long text" }], 10).lines,
+	).toEqual(["a  -- long"]);
+});
+
+/**
+ * Test detecting markers split across chunks
+ */
+test("partialMarkerLength()", () => {
+	expect(partialMarkerLength("abc\x1b[20", "\x1b[200~")).toEqual(4);
+	expect(partialMarkerLength("abc\x1b", "\x1b[200~")).toEqual(1);
+	expect(partialMarkerLength("abc\x1b", "\x1b[200~", 2)).toEqual(0);
+	expect(partialMarkerLength("abc", "\x1b[200~")).toEqual(0);
+	expect(partialMarkerLength("\x1b[200~", "\x1b[200~")).toEqual(0);
+});
+
 test("getSharedFragement", () => {
 	expect(getSharedFragment("a", ["foo-1", "foo-2"])).toEqual(null);
 	expect(getSharedFragment("f", ["foo-1", "foo-2", "a"])).toEqual(null);
@@ -215,3 +477,71 @@ test("getSharedFragement", () => {
 	expect(getSharedFragment("foo", ["foo-", "foo-1"])).toEqual("foo-");
 	expect(getSharedFragment("foo", ["foo-1", "foo-"])).toEqual("foo-");
 });
+
+/**
+ * Test shell syntax highlighting
+ */
+test("highlightShell()", () => {
+	const styles = {
+		command: "<c>",
+		argument: "",
+		string: "<s>",
+		variable: "<v>",
+		operator: "<o>",
+		comment: "<#>",
+		error: "<e>",
+	};
+	const R = "\x1b[0m";
+
+	expect(highlightShell(`ls -la $HOME`, styles)).toEqual(
+		`<c>ls${R} -la <v>$HOME${R}`,
+	);
+	expect(highlightShell(`echo "hi" > out && cat 'x`, styles)).toEqual(
+		`<c>echo${R} <s>"hi"${R} <o>>${R} out <o>&&${R} <c>cat${R} <e>'x${R}`,
+	);
+	expect(highlightShell(`echo "a\nb`, styles)).toEqual(
+		`<c>echo${R} <e>"a${R}\n<e>b${R}`,
+	);
+	expect(highlightShell(`a # b`, styles)).toEqual(`<c>a${R} <#># b${R}`);
+});
+
+/**
+ * Test finding where two displayed strings start to differ
+ */
+test("commonPrefixLength()", () => {
+	expect(commonPrefixLength("", "")).toEqual(0);
+	expect(commonPrefixLength("foo", "foo")).toEqual(3);
+	expect(commonPrefixLength("foo", "foobar")).toEqual(3);
+	expect(commonPrefixLength("foobar", "foo")).toEqual(3);
+	expect(commonPrefixLength("foo", "fox", 1)).toEqual(1);
+
+	// Never in the middle of a grapheme cluster
+	expect(commonPrefixLength("cafe", "café")).toEqual(3);
+	expect(commonPrefixLength("👍🏽", "👍🏿")).toEqual(0);
+
+	// Never in the middle of an escape sequence
+	expect(commonPrefixLength("a\x1b[31mb", "a\x1b[32mb")).toEqual(1);
+	expect(commonPrefixLength("a\x1b[31mb", "a\x1b[31mc")).toEqual(6);
+});
+
+/**
+ * Test collecting the styles in effect
+ */
+test("activeStyles()", () => {
+	expect(activeStyles("foo")).toEqual("");
+	expect(activeStyles("\x1b[1mfoo\x1b[31m bar")).toEqual("\x1b[1m\x1b[31m");
+	expect(activeStyles("\x1b[1mfoo\x1b[0m\x1b[2Kbar")).toEqual("");
+	expect(activeStyles("\x1b[1mfoo\x1b[m\x1b[7mbar")).toEqual("\x1b[7m");
+});
+
+/**
+ * Test styling a range of styled text
+ */
+test("styleRange()", () => {
+	expect(styleRange("foobar", 2, 4, "<", ">")).toEqual("fo<ob>ar");
+	expect(styleRange("foobar", 3, 6, "<", ">")).toEqual("foo<bar>");
+	expect(styleRange("a\x1b[1mb\x1b[0mc", 0, 3, "<", ">")).toEqual(
+		"<a\x1b[1m<b\x1b[0m<c>",
+	);
+	expect(styleRange("a\x1b[1mb", 1, 2, "<", ">")).toEqual("a\x1b[1m<b>");
+});
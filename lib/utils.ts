@@ -1,4 +1,5 @@
-import { parse, ParseEntry } from "shell-quote";
+import { isIncompleteShellInput } from "./IncompleteInput";
+import { ShellToken, tokenizeShell, unquoteShellWord } from "./ShellTokenizer";
 
 /**
  * Detects all the word boundaries in the given input.
@@ -36,8 +37,162 @@ export function closestRightBoundary(input: string, offset: number): number {
 	return found ?? input.length;
 }
 
+/**
+ * Finds the start of the whitespace-delimited word on the left of the given
+ * offset, skipping any whitespace right before it.
+ */
+export function closestLeftWhitespaceBoundary(
+	input: string,
+	offset: number,
+): number {
+	let i = offset;
+	while (i > 0 && /\s/.test(input.charAt(i - 1))) --i;
+	while (i > 0 && !/\s/.test(input.charAt(i - 1))) --i;
+	return i;
+}
+
+/**
+ * Code points that are attached to the preceding character: combining marks,
+ * zero width joiners, emoji skin tone modifiers and tag characters.
+ */
+const EXTENDING_RX = /^[\p{M}\u200d\u{1f3fb}-\u{1f3ff}\u{e0020}-\u{e007f}]$/u;
+
+/**
+ * Code points that are rendered without occupying any column
+ */
+const ZERO_WIDTH_RX = /^[\p{M}\p{Cc}\p{Cf}]$/u;
+
+/**
+ * ANSI escape sequences (CSI, OSC and two-character escapes), captured so
+ * that they are kept when splitting a string with it.
+ */
+const ANSI_RX =
+	/(\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_])/;
+
+/**
+ * The ranges of the East Asian Wide and Fullwidth code points
+ */
+const WIDE_RANGES: [number, number][] = [
+	[0x1100, 0x115f],
+	[0x231a, 0x231b],
+	[0x2329, 0x232a],
+	[0x2e80, 0x303e],
+	[0x3041, 0x33ff],
+	[0x3400, 0x4dbf],
+	[0x4e00, 0x9fff],
+	[0xa000, 0xa4cf],
+	[0xa960, 0xa97f],
+	[0xac00, 0xd7a3],
+	[0xf900, 0xfaff],
+	[0xfe10, 0xfe19],
+	[0xfe30, 0xfe6f],
+	[0xff00, 0xff60],
+	[0xffe0, 0xffe6],
+	[0x1f300, 0x1f64f],
+	[0x1f900, 0x1f9ff],
+	[0x20000, 0x2fffd],
+	[0x30000, 0x3fffd],
+];
+
+/**
+ * Splits the given input into grapheme clusters, i.e. the characters as
+ * perceived by the user.
+ *
+ * This is a simplified segmentation that keeps together surrogate pairs,
+ * combining marks, emoji modifiers and ZWJ sequences, flags and CRLF.
+ */
+export function graphemes(input: string): string[] {
+	const clusters: string[] = [];
+	let joinNext = false;
+
+	for (const chr of input) {
+		const last = clusters[clusters.length - 1];
+		if (
+			last != null &&
+			(joinNext ||
+				EXTENDING_RX.test(chr) ||
+				(chr === "\n" && last === "\r") ||
+				(/^\p{RI}$/u.test(chr) && /^\p{RI}$/u.test(last)))
+		) {
+			clusters[clusters.length - 1] += chr;
+		} else {
+			clusters.push(chr);
+		}
+		joinNext = chr === "\u200d";
+	}
+
+	return clusters;
+}
+
+/**
+ * Returns the offset of the grapheme cluster boundary right before the
+ * given offset.
+ */
+export function previousGraphemeOffset(input: string, offset: number): number {
+	let prev = 0;
+	for (const cluster of graphemes(input)) {
+		const next = prev + cluster.length;
+		if (next >= offset) break;
+		prev = next;
+	}
+	return prev;
+}
+
+/**
+ * Returns the offset of the grapheme cluster boundary right after the
+ * given offset.
+ */
+export function nextGraphemeOffset(input: string, offset: number): number {
+	let next = 0;
+	for (const cluster of graphemes(input)) {
+		next += cluster.length;
+		if (next > offset) return next;
+	}
+	return input.length;
+}
+
+/**
+ * Returns the number of columns the given grapheme cluster occupies
+ */
+export function graphemeWidth(cluster: string): number {
+	const chr = String.fromCodePoint(cluster.codePointAt(0) || 0);
+	if (ZERO_WIDTH_RX.test(chr)) return 0;
+
+	// Emoji presentation and variation selector 16 render in two columns
+	if (/\p{Emoji_Presentation}|\ufe0f/u.test(cluster)) return 2;
+
+	const code = chr.codePointAt(0)!;
+	return WIDE_RANGES.some(([from, to]) => code >= from && code <= to) ? 2 : 1;
+}
+
+/**
+ * Removes the ANSI escape sequences from the given string
+ */
+export function stripAnsi(input: string): string {
+	return input
+		.split(ANSI_RX)
+		.filter((_, i) => i % 2 === 0)
+		.join("");
+}
+
+/**
+ * Returns the number of columns the given string occupies, ignoring any
+ * ANSI escape sequences in it.
+ */
+export function stringWidth(input: string): number {
+	return graphemes(stripAnsi(input)).reduce(
+		(width, cluster) => width + graphemeWidth(cluster),
+		0,
+	);
+}
+
 /**
  * Converts an offset in the given input to a column/row location.
+ *
+ * Columns are counted according to the width of each grapheme cluster,
+ * while ANSI escape sequences do not occupy any column. A character that
+ * does not fit in the remaining columns of a row wraps to the next one,
+ * just like the terminal does.
  */
 export function offsetToColRow(
 	input: string,
@@ -45,18 +200,31 @@ export function offsetToColRow(
 	maxCols: number,
 ): { row: number; col: number } {
 	let row = 0,
-		col = 0;
+		col = 0,
+		i = 0;
 
-	for (let i = 0; i < offset; ++i) {
-		const chr = input.charAt(i);
-		if (chr === "\n") {
-			col = 0;
-			row += 1;
-		} else {
-			col += 1;
-			if (col > maxCols) {
+	// Odd segments are the escape sequences
+	const segments = input.split(ANSI_RX);
+	for (let s = 0; s < segments.length && i < offset; ++s) {
+		if (s % 2 === 1) {
+			i += segments[s].length;
+			continue;
+		}
+
+		for (const cluster of graphemes(segments[s])) {
+			if (i >= offset) break;
+			i += cluster.length;
+
+			if (cluster === "\n") {
 				col = 0;
 				row += 1;
+			} else {
+				const width = graphemeWidth(cluster);
+				if (col + width > maxCols && col > 0) {
+					col = 0;
+					row += 1;
+				}
+				col += width;
 			}
 		}
 	}
@@ -72,31 +240,112 @@ export function countLines(input: string, maxCols: number): number {
 }
 
 /**
- * Checks if there is an incomplete input.
+ * Returns the offsets where a grapheme cluster or an ANSI escape sequence
+ * starts in the given input, up to the `limit`, including the end of the
+ * input.
  */
-export function isIncompleteInput(input: string): boolean {
-	if (input.trim() === "") {
-		return false;
-	}
+function segmentBoundaries(input: string, limit: number): Set<number> {
+	const boundaries = new Set<number>();
+	let i = 0;
 
-	if ((input.match(/'/g) || []).length % 2 !== 0) {
-		return true;
+	const segments = input.split(ANSI_RX);
+	for (let s = 0; s < segments.length && i <= limit; ++s) {
+		if (s % 2 === 1) {
+			boundaries.add(i);
+			i += segments[s].length;
+			continue;
+		}
+		for (const cluster of graphemes(segments[s])) {
+			if (i > limit) break;
+			boundaries.add(i);
+			i += cluster.length;
+		}
 	}
+	if (i <= limit) boundaries.add(i);
 
-	if ((input.match(/"/g) || []).length % 2 !== 0) {
-		return true;
-	}
+	return boundaries;
+}
+
+/**
+ * Returns the length of the common prefix of the given strings (up to the
+ * `limit`), that ends neither in the middle of a grapheme cluster nor of an
+ * ANSI escape sequence in any of them.
+ */
+export function commonPrefixLength(
+	a: string,
+	b: string,
+	limit: number = Infinity,
+): number {
+	const max = Math.min(a.length, b.length, limit);
+	let length = 0;
+	while (length < max && a[length] === b[length]) ++length;
 
-	if (
-		input
-			.split(/(\|\||\||&&)/g)
-			.pop()
-			?.trim() === ""
-	) {
-		return true;
+	const boundariesA = segmentBoundaries(a, length);
+	const boundariesB = segmentBoundaries(b, length);
+	while (length > 0 && !(boundariesA.has(length) && boundariesB.has(length)))
+		--length;
+
+	return length;
+}
+
+/**
+ * Returns the SGR (style) escape sequences that are in effect at the end
+ * of the given input, i.e. the ones after the last reset
+ */
+export function activeStyles(input: string): string {
+	return input
+		.split(ANSI_RX)
+		.filter((segment, i) => i % 2 === 1 && segment.endsWith("m"))
+		.reduce(
+			(styles, sgr) =>
+				sgr === "\x1b[0m" || sgr === "\x1b[m" ? "" : styles + sgr,
+			"",
+		);
+}
+
+/**
+ * Applies the `style` to the visible text between the `start` and `end`
+ * offsets of the styled input, ending it with the `reset` sequence
+ *
+ * The style is applied again after every escape sequence in the range, in
+ * case that sequence resets it.
+ */
+export function styleRange(
+	input: string,
+	start: number,
+	end: number,
+	style: string,
+	reset: string,
+): string {
+	let result = "";
+	let i = 0;
+
+	const segments = input.split(ANSI_RX);
+	for (let s = 0; s < segments.length; ++s) {
+		if (s % 2 === 1) {
+			result += segments[s];
+			if (i > start && i < end) result += style;
+			continue;
+		}
+		for (const chr of segments[s]) {
+			if (i === start) result += style;
+			if (i === end) result += reset;
+			result += chr;
+			i += chr.length;
+		}
 	}
+	if (i === end) result += reset;
 
-	return input.endsWith("\\") && !input.endsWith("\\\\");
+	return result;
+}
+
+/**
+ * Checks if there is an incomplete input.
+ *
+ * This is the POSIX shell detector, see `isIncompleteShellInput`.
+ */
+export function isIncompleteInput(input: string): boolean {
+	return isIncompleteShellInput(input);
 }
 
 /**
@@ -107,15 +356,119 @@ export function hasTailingWhitespace(input: string): boolean {
 }
 
 /**
- * Returns the last token in the given input.
+ * A completion candidate, with the text to insert and how to display it
+ */
+export interface CompletionCandidate {
+	value: string;
+	label?: string;
+	description?: string;
+	group?: string;
+}
+
+/**
+ * A candidate returned by an auto-complete handler, either as the text to
+ * insert or as a `CompletionCandidate`
+ */
+export type AutocompleteCandidate = string | CompletionCandidate;
+
+/**
+ * The candidates returned by an auto-complete handler, either right away,
+ * as a promise, or streamed as an async iterable
+ */
+export type AutocompleteResult =
+	| AutocompleteCandidate[]
+	| Promise<AutocompleteCandidate[]>
+	| AsyncIterable<AutocompleteCandidate | AutocompleteCandidate[]>;
+
+/**
+ * An auto-complete handler, called with the index of the token to complete,
+ * all the tokens and the arguments it was registered with
+ */
+export type AutocompleteCallback = (
+	index: number,
+	tokens: string[],
+	...args: any[]
+) => AutocompleteResult;
+
+/**
+ * The token to complete at the end of an input
+ *
+ * The `tokens` are the parsed tokens of the input, where the token to
+ * complete is at `index` and is the unquoted `expr`. Its raw `text` starts
+ * at the offset `start` of the input, and `quote` is the quote left open at
+ * its end, if any.
+ */
+export interface CompletionToken {
+	index: number;
+	tokens: string[];
+	expr: string;
+	text: string;
+	start: number;
+	quote: ShellToken["quote"];
+}
+
+/**
+ * Returns the token to complete at the end of the given input, along with
+ * the tokens before it
+ */
+export function getCompletionToken(input: string): CompletionToken {
+	const last = tokenizeShell(input).pop();
+	const word = last && last.type === "word" ? last : null;
+	const start = word ? word.start : input.length;
+	const text = word ? word.text : "";
+	const expr = unquoteShellWord(text);
+	const tokens: (string | { op: string })[] = [];
+
+	// The operators are kept as objects, as `parse()` of `shell-quote` does
+	for (const token of tokenizeShell(input.substr(0, start))) {
+		if (token.type === "word") tokens.push(unquoteShellWord(token.text));
+		else if (token.type === "operator") tokens.push({ op: token.text });
+	}
+
+	return {
+		index: tokens.length,
+		tokens: tokens.concat(expr) as string[],
+		expr,
+		text,
+		start,
+		quote: word ? word.quote : null,
+	};
+}
+
+/**
+ * Returns the raw text to insert after the given token, to complete it with
+ * the given candidate
+ *
+ * The completed text is quoted like the token: it is escaped within the
+ * quote left open, or with backslashes outside of quotes. If the completion
+ * is `final`, the quote is closed.
  */
-export function getLastToken(input: string): string {
-	if (input.trim() === "" || hasTailingWhitespace(input)) {
-		return "";
+export function quoteCompletion(
+	token: CompletionToken,
+	candidate: string,
+	final: boolean = false,
+): string {
+	const rest = candidate.substr(token.expr.length);
+	let text: string;
+
+	if (token.quote === "'") {
+		text = rest.replace(/'/g, "'\\''");
+	} else if (token.quote === '"') {
+		text = rest.replace(/["\\$`]/g, "\\$&");
+	} else {
+		text = rest.replace(/[\s\\'"$`!&|;<>()*?[\]{}]/g, "\\$&");
+		if (token.text === "") text = text.replace(/^#/, "\\$&");
+		// A dangling backslash already escapes the first character
+		if (/(^|[^\\])(\\\\)*\\$/.test(token.text)) {
+			text = text.replace(/^\\/, "");
+		}
 	}
 
-	const tokens = parse(input) as string[];
-	return tokens.pop() || "";
+	// The contents of backticks are parsed again as a command, so they are
+	// escaped like unquoted text and the backtick is left open
+	return final && token.quote && token.quote !== "`"
+		? text + token.quote
+		: text;
 }
 
 /**
@@ -128,17 +481,7 @@ export function collectAutocompleteCandidates(
 	}[],
 	input: string,
 ): string[] {
-	const tokens = parse(input) as string[];
-	let index = tokens.length - 1;
-	let expr = tokens[index] || "";
-
-	if (input.trim() === "") {
-		index = 0;
-		expr = "";
-	} else if (hasTailingWhitespace(input)) {
-		index += 1;
-		expr = "";
-	}
+	const { index, tokens, expr } = getCompletionToken(input);
 
 	return callbacks
 		.reduce<string[]>((candidates, { fn, args }) => {
@@ -152,6 +495,110 @@ export function collectAutocompleteCandidates(
 		.filter((txt) => txt.startsWith(expr));
 }
 
+/**
+ * Collects autocomplete candidates from handlers that may be asynchronous
+ *
+ * Each handler receives the `signal` after its own arguments. The result is
+ * returned right away if all the handlers are synchronous, otherwise the
+ * candidates are merged as they arrive and the promise resolves when every
+ * handler has finished, timed out or the signal was aborted. Plain string
+ * candidates are converted to `CompletionCandidate` objects.
+ */
+export function collectAutocompleteCandidatesAsync(
+	callbacks: {
+		fn: AutocompleteCallback;
+		args: unknown[];
+		timeout?: number;
+	}[],
+	input: string,
+	signal?: AbortSignal,
+): CompletionCandidate[] | Promise<CompletionCandidate[]> {
+	const { index, tokens, expr } = getCompletionToken(input);
+	const candidates: CompletionCandidate[] = [];
+	const pending: Promise<void>[] = [];
+
+	const merge = (items: AutocompleteCandidate | AutocompleteCandidate[]) => {
+		for (const item of ([] as AutocompleteCandidate[]).concat(items)) {
+			const candidate = typeof item === "string" ? { value: item } : item;
+			if (
+				candidate != null &&
+				typeof candidate.value === "string" &&
+				candidate.value.startsWith(expr)
+			) {
+				candidates.push(candidate);
+			}
+		}
+	};
+
+	callbacks.forEach(({ fn, args, timeout }) => {
+		try {
+			const result = fn(index, tokens, ...args, signal);
+			if (Array.isArray(result)) {
+				merge(result);
+			} else if (result != null) {
+				pending.push(
+					settleAutocompleteResult(result, merge, timeout, signal),
+				);
+			}
+		} catch (e) {
+			console.error("Auto-complete error:", e);
+		}
+	});
+
+	if (pending.length === 0) return candidates;
+	return Promise.all(pending).then(() => candidates);
+}
+
+/**
+ * Waits for an asynchronous handler result, passing the candidates to
+ * `merge` as they arrive, until it completes, times out or is aborted
+ */
+function settleAutocompleteResult(
+	result:
+		| Promise<AutocompleteCandidate[]>
+		| AsyncIterable<AutocompleteCandidate | AutocompleteCandidate[]>,
+	merge: (items: AutocompleteCandidate | AutocompleteCandidate[]) => void,
+	timeout?: number,
+	signal?: AbortSignal,
+): Promise<void> {
+	return new Promise<void>((resolve) => {
+		let done = false;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+
+		const finish = () => {
+			if (done) return;
+			done = true;
+			if (timer !== undefined) clearTimeout(timer);
+			if (signal) signal.removeEventListener("abort", finish);
+			resolve();
+		};
+		const fail = (e: unknown) => {
+			if (!done) console.error("Auto-complete error:", e);
+			finish();
+		};
+
+		if (signal) {
+			if (signal.aborted) return finish();
+			signal.addEventListener("abort", finish);
+		}
+		if (timeout) timer = setTimeout(finish, timeout);
+
+		if (Symbol.asyncIterator in result) {
+			(async () => {
+				for await (const items of result) {
+					if (done) break;
+					merge(items);
+				}
+			})().then(finish, fail);
+		} else {
+			result.then((items) => {
+				if (!done) merge(items);
+				finish();
+			}, fail);
+		}
+	});
+}
+
 /**
  * Returns the longest common starting substring in a list of strings.
  */
@@ -173,3 +620,222 @@ export function getSharedFragment(
 
 	return getSharedFragment(fragment, candidates);
 }
+
+/**
+ * Returns the length of the longest end of the input that is the beginning
+ * of the given marker, so that a marker split across chunks of data can be
+ * completed by the next chunk
+ */
+export function partialMarkerLength(
+	input: string,
+	marker: string,
+	minLength: number = 1,
+): number {
+	const maxLength = Math.min(input.length, marker.length - 1);
+	for (let length = maxLength; length >= minLength; --length) {
+		if (input.endsWith(marker.substr(0, length))) return length;
+	}
+	return 0;
+}
+
+/**
+ * Truncates the given text to fit in `width` columns
+ */
+function truncateToWidth(text: string, width: number): string {
+	let result = "";
+	let used = 0;
+	for (const cluster of graphemes(text)) {
+		used += graphemeWidth(cluster);
+		if (used > width) break;
+		result += cluster;
+	}
+	return result;
+}
+
+/**
+ * The completion candidates arranged for display
+ *
+ * `cells` holds the line and the column of each candidate in `lines`.
+ */
+export interface CompletionLayout {
+	lines: string[];
+	cells: { line: number; column: number }[];
+}
+
+/**
+ * Arranges completion candidates in lines that fit in `maxCols` columns
+ *
+ * The candidates are listed by group, under the name of each group. The
+ * candidates of a group with descriptions are listed one per line with the
+ * descriptions aligned, otherwise they are arranged in a grid. The
+ * `selected` candidate is displayed in reverse video.
+ */
+export function layoutCompletions(
+	candidates: CompletionCandidate[],
+	maxCols: number,
+	selected: number = -1,
+	padding: number = 2,
+): CompletionLayout {
+	const lines: string[] = [];
+	const cells: { line: number; column: number }[] = [];
+
+	// Keep the groups in the order they first appear
+	const groups = new Map<string, number[]>();
+	candidates.forEach((candidate, i) => {
+		const group = candidate.group || "";
+		groups.set(group, (groups.get(group) || []).concat(i));
+	});
+
+	groups.forEach((indices, group) => {
+		if (group) {
+			lines.push(`\x1b[1m${truncateToWidth(group, maxCols)}\x1b[22m`);
+		}
+
+		const labels = indices.map((i) =>
+			truncateToWidth(
+				candidates[i].label || candidates[i].value,
+				maxCols,
+			),
+		);
+		const labelWidth = labels.reduce(
+			(width, label) => Math.max(width, stringWidth(label)),
+			0,
+		);
+		const pad = (label: string, width: number) =>
+			label + " ".repeat(Math.max(0, width - stringWidth(label)));
+		const style = (i: number, label: string) =>
+			i === selected ? `\x1b[7m${label}\x1b[27m` : label;
+
+		if (indices.some((i) => candidates[i].description)) {
+			indices.forEach((i, k) => {
+				const description = candidates[i].description
+					? truncateToWidth(
+							`${" ".repeat(padding)}-- ${candidates[i].description}`,
+							maxCols - labelWidth,
+						)
+					: "";
+				cells[i] = { line: lines.length, column: 0 };
+				lines.push(style(i, pad(labels[k], labelWidth)) + description);
+			});
+		} else {
+			const itemWidth = labelWidth + padding;
+			const columns = Math.max(1, Math.floor(maxCols / itemWidth));
+			indices.forEach((i, k) => {
+				const column = k % columns;
+				if (column === 0) lines.push("");
+				cells[i] = { line: lines.length - 1, column };
+				lines[lines.length - 1] +=
+					(column > 0 ? " ".repeat(padding) : "") +
+					style(i, pad(labels[k], labelWidth));
+			});
+		}
+	});
+
+	return { lines, cells };
+}
+
+/**
+ * The operators after which the next word is a file name, not a command
+ */
+const SHELL_REDIRECTIONS = [
+	"<<<",
+	"<<-",
+	"<<",
+	"<(",
+	">>",
+	">&",
+	"<&",
+	"<",
+	">",
+];
+
+/**
+ * The ANSI styles used by `highlightShell()`
+ */
+export interface ShellHighlightStyles {
+	command: string;
+	argument: string;
+	string: string;
+	variable: string;
+	operator: string;
+	comment: string;
+	error: string;
+}
+
+/**
+ * The default styles of `highlightShell()`
+ */
+export const DEFAULT_SHELL_STYLES: ShellHighlightStyles = {
+	command: "\x1b[1;32m",
+	argument: "",
+	string: "\x1b[33m",
+	variable: "\x1b[36m",
+	operator: "\x1b[35m",
+	comment: "\x1b[90m",
+	error: "\x1b[31m",
+};
+
+/**
+ * Wraps the given text with an ANSI style, styling each line on its own so
+ * that the style does not leak into the continuation prompts.
+ */
+function applyStyle(style: string, text: string): string {
+	if (style === "" || text === "") return text;
+	return text
+		.split("\n")
+		.map((line) => (line ? style + line + "\x1b[0m" : line))
+		.join("\n");
+}
+
+/**
+ * Highlights a shell command line with ANSI styles
+ *
+ * Commands, quoted strings, variables, operators and comments are styled,
+ * while unterminated quotes are marked as errors.
+ */
+export function highlightShell(
+	input: string,
+	styles: ShellHighlightStyles = DEFAULT_SHELL_STYLES,
+): string {
+	let expectCommand = true;
+
+	return tokenizeShell(input)
+		.map(({ type, text, quote }) => {
+			switch (type) {
+				case "whitespace":
+					return text;
+				case "comment":
+					return applyStyle(styles.comment, text);
+				case "heredoc":
+					return applyStyle(styles.string, text);
+				case "operator":
+					if (!SHELL_REDIRECTIONS.includes(text))
+						expectCommand = true;
+					return applyStyle(styles.operator, text);
+			}
+
+			if (expectCommand) {
+				expectCommand = false;
+				return applyStyle(quote ? styles.error : styles.command, text);
+			}
+
+			return text.replace(
+				/'[^']*(')?|"(?:\\[^]|[^"\\])*(")?|\$\{[^}]*\}?|\$\w+|(?:\\[^]|[^'"$\\])+|[^]/g,
+				(part, singleEnd, doubleEnd) => {
+					if (part[0] === "'" || part[0] === '"') {
+						return applyStyle(
+							singleEnd || doubleEnd
+								? styles.string
+								: styles.error,
+							part,
+						);
+					}
+					if (part[0] === "$" && part.length > 1) {
+						return applyStyle(styles.variable, part);
+					}
+					return applyStyle(styles.argument, part);
+				},
+			);
+		})
+		.join("");
+}